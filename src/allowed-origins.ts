@@ -0,0 +1,176 @@
+/**
+ * @fileoverview
+ * Compiles and matches the allowed origin rules used by WindowMessenger to
+ * decide which frames may connect.
+ *
+ * A rule is one of:
+ *   - An exact origin, like https://example.com or http://localhost:8080. A
+ *     full URL is accepted and normalized to its origin.
+ *   - A subdomain wildcard, like https://*.cdn.ampproject.org, which matches
+ *     any subdomain (at any depth) of cdn.ampproject.org over HTTPS, but not
+ *     cdn.ampproject.org itself.
+ *
+ * Both forms restrict the scheme to the one written in the rule; only http and
+ * https are accepted. Compilation is strict: anything that isn't clearly one of
+ * the forms above throws, so a typo can never widen the rule to allow
+ * everything.
+ */
+
+export interface OriginRule {
+  /**
+   * The rule as written, for logging.
+   */
+  source: string,
+  scheme: string,
+  /**
+   * The exact hostname, or for wildcard rules the parent domain the origin's
+   * hostname must be a subdomain of.
+   */
+  host: string,
+  /**
+   * The explicit port, or the empty string for the scheme's default port.
+   */
+  port: string,
+  wildcard: boolean,
+}
+
+const ALLOWED_SCHEMES = ['http', 'https'];
+const WILDCARD_RULE_REGEX = /^([a-z]+):\/\/\*\.([^\/:]+)(?::(\d{1,5}))?\/?$/i;
+const HOST_LABEL_REGEX = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/;
+const DEFAULT_PORTS = {
+  'http': '80',
+  'https': '443',
+};
+
+function normalizePort(scheme: string, port: string): string {
+  return !port || DEFAULT_PORTS[scheme] === port ? '' : port;
+}
+
+function compileWildcardRule(rule: string, match: RegExpExecArray): OriginRule {
+  const scheme = match[1].toLowerCase();
+  const host = match[2].toLowerCase();
+  const labels = host.split('.');
+  if (labels.length < 2) {
+    throw new Error(`Invalid allowed origin rule '${rule}': a wildcard must ` +
+      'be followed by a domain with at least two labels, like ' +
+      '*.example.com.');
+  }
+  for (let i = 0; i < labels.length; i++) {
+    if (!HOST_LABEL_REGEX.test(labels[i])) {
+      throw new Error(`Invalid allowed origin rule '${rule}': '${labels[i]}' ` +
+        'is not a valid hostname label.');
+    }
+  }
+  if (/^\d+$/.test(labels[labels.length - 1])) {
+    throw new Error(`Invalid allowed origin rule '${rule}': a wildcard ` +
+      'cannot be applied to an IP address.');
+  }
+  return {
+    source: rule,
+    scheme,
+    host,
+    port: normalizePort(scheme, match[3]),
+    wildcard: true,
+  };
+}
+
+function compileExactRule(rule: string): OriginRule {
+  let url: URL;
+  try {
+    url = new URL(rule);
+  } catch (e) {
+    throw new Error(`Invalid allowed origin rule '${rule}': not a valid ` +
+      'origin.');
+  }
+  if (!url.hostname || url.hostname.indexOf('*') !== -1) {
+    throw new Error(`Invalid allowed origin rule '${rule}': not a valid ` +
+      'origin.');
+  }
+  const scheme = url.protocol.replace(/:$/, '');
+  return {
+    source: rule,
+    scheme,
+    host: url.hostname.toLowerCase(),
+    port: normalizePort(scheme, url.port),
+    wildcard: false,
+  };
+}
+
+/**
+ * Compiles one allowed origin rule, throwing an Error describing the problem
+ * if the rule is malformed.
+ */
+export function compileOriginRule(rule: string): OriginRule {
+  if (typeof rule !== 'string' || !rule.trim()) {
+    throw new Error(`Invalid allowed origin rule '${rule}': expected a ` +
+      'non-empty string.');
+  }
+  rule = rule.trim();
+  const schemeMatch = /^([a-z][a-z0-9+.-]*):\/\//i.exec(rule);
+  if (!schemeMatch) {
+    throw new Error(`Invalid allowed origin rule '${rule}': a scheme like ` +
+      'https:// is required.');
+  }
+  if (ALLOWED_SCHEMES.indexOf(schemeMatch[1].toLowerCase()) === -1) {
+    throw new Error(`Invalid allowed origin rule '${rule}': only the http ` +
+      'and https schemes are allowed.');
+  }
+
+  const wildcardMatch = WILDCARD_RULE_REGEX.exec(rule);
+  if (wildcardMatch) {
+    return compileWildcardRule(rule, wildcardMatch);
+  }
+  if (rule.indexOf('*') !== -1) {
+    throw new Error(`Invalid allowed origin rule '${rule}': a wildcard is ` +
+      'only allowed as the first label of the hostname, like ' +
+      'https://*.example.com.');
+  }
+  return compileExactRule(rule);
+}
+
+/**
+ * Compiles a list of allowed origin rules. Throws on the first malformed rule.
+ */
+export function compileOriginRules(rules: Array<string>): Array<OriginRule> {
+  if (!Array.isArray(rules)) {
+    throw new Error('Allowed origin rules should be a string array. Got:' +
+      rules);
+  }
+  return rules.map(compileOriginRule);
+}
+
+/**
+ * Returns true if the origin matches the compiled rule.
+ */
+export function matchesOriginRule(origin: string, rule: OriginRule): boolean {
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch (e) {
+    // Opaque origins like 'null' never match
+    return false;
+  }
+  const scheme = url.protocol.replace(/:$/, '');
+  const host = url.hostname.toLowerCase();
+  if (scheme !== rule.scheme || normalizePort(scheme, url.port) !== rule.port) {
+    return false;
+  }
+  if (rule.wildcard) {
+    const suffix = '.' + rule.host;
+    return host.length > suffix.length &&
+      host.lastIndexOf(suffix) === host.length - suffix.length;
+  }
+  return host === rule.host;
+}
+
+/**
+ * Returns true if the origin matches any of the compiled rules.
+ */
+export function isOriginAllowed(origin: string, rules: Array<OriginRule>): boolean {
+  for (let i = 0; i < rules.length; i++) {
+    if (matchesOriginRule(origin, rules[i])) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -1 +1,181 @@
-import './amp-web-push-helper-frame';
\ No newline at end of file
+import {AlternateCheckOptions} from './amp-web-push-helper-frame';
+import {
+  bootstrapHelperFrame,
+  getHelperFrameController,
+  HelperFrameBootstrapOptions,
+  HelperFrameController,
+  HelperFrameMode,
+} from './helper-frame-bootstrap';
+import {checkPageConfig, parseHelperFrameConfig} from './helper-frame-config';
+import {PushVendorAdapter} from './push-vendor-adapters';
+
+/**
+ * This JavaScript file is loaded by the helper frame page, which configures it
+ * with a JSON block holding HelperFrameBootstrapOptions:
+ *
+ *   <script type="application/json" id="amp-web-push-helper-frame-config">
+ *     {
+ *       "mode": "http",
+ *       "alternateOriginUrls": ["https://subdomain.os.tc/amp-remote-frame.html"]
+ *     }
+ *   </script>
+ *   <script src="amp-http-helper-frame.js"></script>
+ *
+ * The helper frame URL can set the options that can't weaken the alternate
+ * origin check, in its query string and fragment; see helper-frame-config.ts.
+ * Whoever embeds the helper frame chooses its URL, so the block's settings win
+ * over the URL's, and the URL only fills in what the block leaves out. The URL's allowed origins, which
+ * include the parentOrigin AMP adds, are added to the block's.
+ *
+ * The helper frame starts once the block has been parsed, or right away if the
+ * URL sets more than the allowed origins AMP adds. Pages configured neither
+ * way start it themselves, to pass options JSON can't hold, like
+ * onSubscriptionMigrated:
+ *
+ *   const controller = AmpWebPushHelperFrame.bootstrap({...});
+ *
+ * Pages written for earlier versions can still call
+ * runAmpWebPushHelperFrame(urls, checkOptions).
+ *
+ * A window runs one helper frame: if the page starts it before the document
+ * has loaded, the block and the URL are ignored, and a later start replaces
+ * the one they made.
+ */
+
+const CONFIG_ELEMENT_ID = 'amp-web-push-helper-frame-config';
+
+/**
+ * What runAmpWebPushHelperFrame() used to take instead of the alternate origin
+ * URLs.
+ */
+interface LegacyRunConfig {
+  mode?: HelperFrameMode,
+  alternateOriginUrls?: Array<string>,
+  checkOptions?: AlternateCheckOptions,
+  vendorAdapter?: PushVendorAdapter,
+}
+
+/**
+ * Returns the options in the page's config block, null if it has none, or
+ * throws if the block isn't a JSON object or holds invalid settings.
+ */
+function readConfigBlock(): HelperFrameBootstrapOptions|null {
+  const element = document.getElementById(CONFIG_ELEMENT_ID);
+  if (!element) {
+    return null;
+  }
+  if (element.getAttribute('type') !== 'application/json') {
+    throw new Error(`#${CONFIG_ELEMENT_ID} should be a <script ` +
+      'type="application/json"> element.');
+  }
+  let options;
+  try {
+    options = JSON.parse(element.textContent);
+  } catch (e) {
+    throw new Error(`#${CONFIG_ELEMENT_ID} isn't valid JSON: ${e.message}`);
+  }
+  if (!options || typeof options !== 'object' || Array.isArray(options)) {
+    throw new Error(`#${CONFIG_ELEMENT_ID} should hold a JSON object.`);
+  }
+  return checkPageConfig(options);
+}
+
+/**
+ * Returns the block's options over the URL's, or null if neither configures
+ * the helper frame. Throws if either is invalid.
+ */
+function readDeclarativeConfig(): HelperFrameBootstrapOptions|null {
+  const parsed = parseHelperFrameConfig(location.search, location.hash);
+  if (parsed.ignoredKeys.length > 0) {
+    log('Ignoring helper frame URL parameters that aren\'t configuration:',
+      parsed.ignoredKeys.join(', '));
+  }
+  const blockOptions = readConfigBlock();
+  const urlConfigures = parsed.keys.some(key =>
+    key !== 'parentOrigin' && key !== 'allowedOrigins');
+  if (!blockOptions && !urlConfigures) {
+    return null;
+  }
+  const options: HelperFrameBootstrapOptions = parsed.options;
+  if (blockOptions) {
+    Object.keys(blockOptions).forEach(key => {
+      if (key === 'allowedOrigins') {
+        options.allowedOrigins =
+          options.allowedOrigins.concat(blockOptions.allowedOrigins || []);
+      } else {
+        options[key] = blockOptions[key];
+      }
+    });
+  }
+  return options;
+}
+
+function bootstrapFromDeclarativeConfig() {
+  if (getHelperFrameController()) {
+    log('The page started the helper frame itself; ignoring ' +
+      `#${CONFIG_ELEMENT_ID} and the URL configuration.`);
+    return;
+  }
+  let options: HelperFrameBootstrapOptions|null;
+  try {
+    options = readDeclarativeConfig();
+  } catch (e) {
+    log('Could not read the helper frame configuration:', e.message);
+    return;
+  }
+  if (!options) {
+    log(`No #${CONFIG_ELEMENT_ID} block or URL configuration; waiting for ` +
+      'the page to start the helper frame.');
+    return;
+  }
+  // The controller logs its own errors
+  bootstrapHelperFrame(options);
+}
+
+function runAmpWebPushHelperFrame(
+  configOrUrlsToCheck: LegacyRunConfig|Array<string>,
+  checkOptions?: AlternateCheckOptions): HelperFrameController {
+  const options: HelperFrameBootstrapOptions = {};
+  if (Array.isArray(configOrUrlsToCheck)) {
+    copyOptions(checkOptions, options);
+    options.alternateOriginUrls = configOrUrlsToCheck;
+  } else {
+    const config = configOrUrlsToCheck || {};
+    copyOptions(config.checkOptions, options);
+    options.mode = config.mode;
+    options.alternateOriginUrls = config.alternateOriginUrls;
+    if (!options.vendorAdapter) {
+      options.vendorAdapter = config.vendorAdapter;
+    }
+  }
+  return bootstrapHelperFrame(options);
+}
+
+function copyOptions(from: {[name: string]: any}|undefined, to: {[name: string]: any}) {
+  if (!from) {
+    return;
+  }
+  Object.keys(from).forEach(name => {
+    to[name] = from[name];
+  });
+}
+
+function log(...args_: any[]) {
+  if (typeof (window as any)._LOG !== "undefined") {
+    const args = Array.prototype.slice.call(arguments);
+    args.unshift(`[Helper Frame: ${location.origin}]`);
+    console.log.apply(window.console, args);
+  }
+}
+
+(window as any).AmpWebPushHelperFrame = {
+  bootstrap: bootstrapHelperFrame,
+};
+(window as any).runAmpWebPushHelperFrame = runAmpWebPushHelperFrame;
+
+// The config block can come after this script
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', bootstrapFromDeclarativeConfig);
+} else {
+  bootstrapFromDeclarativeConfig();
+}
@@ -1,5 +1,36 @@
 import { WindowMessenger } from './window-messenger';
-import { SubscriptionStateMessage, ServiceWorkerMessage } from './amp-web-push-helper-frame';
+import {
+  OriginMigrationResult,
+  RemoteRegistrationState,
+  SubscriptionStateMessage,
+  ServiceWorkerMessage,
+} from './topics';
+import {
+  ServiceWorkerQueries,
+  WorkerQueryError,
+  WorkerQueryMessage,
+} from './service-worker-queries';
+import { serializeSubscription } from './push-subscriptions';
+import {
+  getPushVendorAdapter,
+  PushVendorAdapter,
+  PushVendorContext,
+} from './push-vendor-adapters';
+import { describeRegistration, getRegistrations } from './registrations';
+import { compileOriginRules, isOriginAllowed } from './allowed-origins';
+import { parseQueryString } from './utils';
+
+/**
+ * The number of milliseconds to wait for the service worker's reply to a
+ * query. Kept well under the checker's per-origin timeout, so a worker that
+ * doesn't answer still leaves time to report everything else.
+ */
+const WORKER_QUERY_TIMEOUT = 3000;
+
+/**
+ * The number of milliseconds the parent has to answer the nonce challenge.
+ */
+const PARENT_CHALLENGE_TIMEOUT = 3000;
 
 /**
  * This JavaScript file is executed on a page like:
@@ -18,49 +49,181 @@ import { SubscriptionStateMessage, ServiceWorkerMessage } from './amp-web-push-h
  * communicates the Notification permission and service worker state back to the
  * other half of this checker script that will then block loading AMP web push
  * to prevent double subscriptions, if an alternate origin subscription is
- * identified.
+ * identified. In the checker's migration mode, it then unsubscribes this
+ * origin's subscription on request.
+ *
+ * Only parents on an allowed origin are answered. The rules come from the
+ * REMOTE_FRAME_PARENT_ORIGINS build-time variable. Whoever embeds this frame
+ * chooses its URL, so the comma-separated parentOrigins URL query parameter
+ * can only narrow those rules down, never add to them.
+ *
+ * Builds without REMOTE_FRAME_PARENT_ORIGINS keep working with existing remote
+ * frame URLs: they report the subscription state to any parent, as before the
+ * allowlist, but refuse to migrate subscriptions. Setting the variable is how
+ * a deployment moves to the allowlist, and enables migration.
+ *
+ * The push vendor is named by the vendor URL query parameter, and defaults to
+ * OneSignal; see push-vendor-adapters.ts.
  */
 export class AmpRemoteFrame {
 
   /**
-   * Describes the messages we allow through from the service worker. Whenever
-   * the AMP page sends a 'query service worker' message with a topic string,
-   * we add the topic to the allowed list, and wait for the service worker to
-   * reply. Once we get a reply, we remove it from the allowed topics.
+   * Matches the service worker's replies to our queries by request ID.
+   */
+  private workerQueries_: ServiceWorkerQueries;
+  /**
+   * Whether the parent answered the nonce challenge. Nothing is done for it
+   * until it has.
    */
-  private allowedWorkerMessageTopics_: object;
+  private parentVerified_: boolean;
+  private vendorAdapter_: PushVendorAdapter;
 
-  constructor() {
-    this.allowedWorkerMessageTopics_ = {};
+  /**
+   * Throws if the vendor URL query parameter names an unknown vendor, or if the
+   * query string holds a malformed percent-escape.
+   */
+  constructor(vendorAdapter?: PushVendorAdapter) {
+    this.workerQueries_ = new ServiceWorkerQueries(WORKER_QUERY_TIMEOUT);
+    this.parentVerified_ = false;
+    this.vendorAdapter_ = vendorAdapter ||
+      getPushVendorAdapter(parseQueryString(location.search)['vendor']);
   }
 
   async run() {
+    const parentOrigin = this.getAllowedParentOrigin_();
+    if (!parentOrigin) {
+      return;
+    }
     log("Checking for an existing subscription...");
     navigator.serviceWorker.addEventListener('message',
-        this.onPageMessageReceivedFromServiceWorker_.bind(this));
+        this.workerQueries_.onWorkerMessage.bind(this.workerQueries_));
     const messenger = new WindowMessenger({
       debug: false,
       windowContext: window,
     });
-    await messenger.connect(window.parent, '*');
+    // Registered before connecting, so the checker sees we support it
+    messenger.on(WindowMessenger.Topics.ORIGIN_MIGRATE, (_, replyToFrame) => {
+      if (!this.parentVerified_) {
+        log('Refusing to migrate for a parent that was not verified.');
+        replyToFrame({
+          success: false,
+          error: {
+            code: 'parent-not-verified',
+            message: 'The parent has not answered the challenge.',
+          },
+        });
+        return;
+      }
+      this.migrateSubscription().then(result => {
+        replyToFrame({success: true, result});
+      }, error => {
+        log('Could not migrate the subscription:', error);
+        replyToFrame({
+          success: false,
+          error: {
+            code: error && error.name || 'error',
+            message: error ? (error.message || String(error)) : 'error',
+          },
+        });
+      });
+    });
+    // Targeting the origin makes the browser drop the handshake, and the
+    // channel port it carries, unless the parent really is on that origin
+    await messenger.connect(window.parent, parentOrigin);
+    try {
+      await this.verifyParent_(messenger, parentOrigin);
+    } catch (e) {
+      log(`Refusing to report to ${parentOrigin}:`, e.message);
+      messenger.disconnect();
+      return;
+    }
+    this.parentVerified_ = true;
 
     const subscriptionState = await this.getSubscriptionState();
-    messenger.send(WindowMessenger.Topics.ORIGIN_SUBSCRIPTION_STATE, subscriptionState);
+    messenger.send(WindowMessenger.Topics.ORIGIN_SUBSCRIPTION_STATE, subscriptionState)
+      .catch(error => {
+        // The checker doesn't reply; it disconnects once it has the state
+        log('Subscription state channel closed:', error.message);
+      });
   }
 
   /**
-   * @param {!Event} event
-   * @private
+   * Returns the parent's origin if the allowlist allows it, or null after
+   * logging why it's refused.
+   *
+   * The parent's origin is read from location.ancestorOrigins, or else from the
+   * referrer. Neither can be trusted on its own, but connecting with it as the
+   * target origin lets the browser enforce it.
    */
-  onPageMessageReceivedFromServiceWorker_(event) {
-    const {command, payload} = event.data;
-    const callbackPromiseResolver = this.allowedWorkerMessageTopics_[command];
+  private getAllowedParentOrigin_(): string|null {
+    let buildRules;
+    let urlRules;
+    try {
+      buildRules = compileOriginRules(splitOriginRules(
+          typeof __REMOTE_FRAME_PARENT_ORIGINS__ === 'string' ?
+            __REMOTE_FRAME_PARENT_ORIGINS__ :
+            ''));
+      urlRules = compileOriginRules(splitOriginRules(
+          parseQueryString(location.search)['parentOrigins'] || ''));
+    } catch (e) {
+      log('Refusing every parent: invalid parent origin rules:', e.message);
+      return null;
+    }
+    if (buildRules.length === 0) {
+      log('Refusing every parent: this build was made without ' +
+        'REMOTE_FRAME_PARENT_ORIGINS.');
+      return null;
+    }
+    const parentOrigin = getParentOrigin();
+    if (!parentOrigin) {
+      log("Refusing to report: the parent's origin is unknown.");
+      return null;
+    }
+    if (!isOriginAllowed(parentOrigin, buildRules)) {
+      log(`Refusing to report to ${parentOrigin}: it isn't an allowed parent ` +
+        'origin.');
+      return null;
+    }
+    if (urlRules.length > 0 && !isOriginAllowed(parentOrigin, urlRules)) {
+      log(`Refusing to report to ${parentOrigin}: the parentOrigins URL query ` +
+        "parameter doesn't allow it.");
+      return null;
+    }
+    return parentOrigin;
+  }
 
-    if (typeof callbackPromiseResolver === 'function') {
-      // Resolve the waiting listener with the worker's reply payload
-      callbackPromiseResolver(payload);
+  /**
+   * Sends the parent a one-time nonce over the channel, and resolves once it
+   * echoes the nonce and the origin it was connected to. Rejects otherwise.
+   *
+   * The origin the parent reports proves nothing by itself: the parent is known
+   * to be on parentOrigin because the connection targeted it, and the browser
+   * only delivers the channel port there. The challenge confirms the parent
+   * holds the channel and speaks this protocol.
+   *
+   * Parents that negotiated a protocol version below
+   * WindowMessenger.NONCE_PROTOCOL_VERSION can't answer the challenge, and are
+   * refused rather than trusted without it. Their pages need the current
+   * helper frame.
+   */
+  private async verifyParent_(messenger: WindowMessenger, parentOrigin: string) {
+    const version = messenger.getProtocolVersion();
+    if (version === null || version < WindowMessenger.NONCE_PROTOCOL_VERSION) {
+      throw new Error(`The parent speaks protocol version ${version}, which ` +
+        'predates the challenge.');
+    }
+    const nonce =
+      (<Uint8Array>crypto.getRandomValues(new Uint8Array(16))).join('');
+    const [reply] = await messenger.send(
+        WindowMessenger.Topics.PARENT_CHALLENGE,
+        {nonce},
+        {timeout: PARENT_CHALLENGE_TIMEOUT});
+    if (reply.nonce !== nonce) {
+      throw new Error('The parent answered with the wrong nonce.');
+    }
+    if (reply.origin !== parentOrigin) {
+      throw new Error(`The parent claims to be ${reply.origin}.`);
     }
-    // Otherwise, ignore unsolicited messages from the service worker
   }
 
   async getSubscriptionState(): Promise<SubscriptionStateMessage> {
@@ -70,20 +233,31 @@ export class AmpRemoteFrame {
       serviceWorkerState: undefined,
       serviceWorkerIsControllingFrame: undefined,
       serviceWorkerSubscriptionState: undefined,
+      registrations: undefined,
     };
 
     if (navigator.serviceWorker) {
-      if (navigator.serviceWorker.controller) {
-        state.serviceWorkerUrl = navigator.serviceWorker.controller.scriptURL;
-        state.serviceWorkerState = navigator.serviceWorker.controller.state;
-        state.serviceWorkerIsControllingFrame = true;
-
-        const subscriptionState = await this.messageServiceWorkerAndAwaitReply({
-          topic: 'amp-web-push-subscription-state',
-          payload: null
-        });
+      const worker = await this.findWorker_();
+      if (worker) {
+        state.serviceWorkerUrl = worker.scriptURL;
+        state.serviceWorkerState = worker.state;
+        state.serviceWorkerIsControllingFrame =
+          worker === navigator.serviceWorker.controller;
 
-        state.serviceWorkerSubscriptionState = subscriptionState;
+        try {
+          state.serviceWorkerSubscriptionState =
+            await this.vendorAdapter_.querySubscriptionState(
+                await this.getVendorContext_());
+        } catch (e) {
+          // Leave the subscription state unknown
+          log('The service worker did not report its subscription state:', e);
+        }
+      }
+
+      try {
+        state.registrations = await this.getRegistrationStates();
+      } catch (e) {
+        log('Could not read the registrations:', e);
       }
     }
 
@@ -92,79 +266,152 @@ export class AmpRemoteFrame {
     return state;
   }
 
-  async messageServiceWorkerAndAwaitReply(message: ServiceWorkerMessage) {
-    return new Promise(resolve => {
-      // Allow this message through, just for the next time it's received
-      this.allowedWorkerMessageTopics_[message.topic] = resolve;
+  /**
+   * Unsubscribes this origin's push subscription, after collecting the
+   * identifiers the backend needs to link the old subscriber record to the
+   * one created when the visitor resubscribes on the canonical origin.
+   */
+  async migrateSubscription(): Promise<OriginMigrationResult> {
+    const context = await this.getVendorContext_();
+    let workerIdentifiers = null;
+    try {
+      workerIdentifiers = await this.vendorAdapter_.extractIdentifiers(context);
+    } catch (e) {
+      // The unsubscribed subscription's endpoint still identifies it
+      log('Could not extract the subscription identifiers:', e);
+    }
 
-      // The AMP message is forwarded to the service worker
-      this.waitUntilWorkerControlsPage().then(() => {
-        navigator.serviceWorker.controller.postMessage({
-          command: message.topic,
-          payload: message.payload,
-        });
-      });
-    }).then(workerReplyPayload => {
-      delete this.allowedWorkerMessageTopics_[message.topic];
-      return workerReplyPayload;
-    });
+    const {unsubscribed, subscription} =
+      await this.vendorAdapter_.unsubscribe(context);
+    log('Migrated subscription:', subscription, workerIdentifiers);
+
+    return {
+      unsubscribed,
+      subscription,
+      workerIdentifiers,
+    };
   }
 
   /**
-    * Service worker postMessage() communication relies on the property
-    * navigator.serviceWorker.controller to be non-null. The controller property
-    * references the active service worker controlling the page. Without this
-    * property, there is no service worker to message.
-    *
-    * The controller property is set when a service worker has successfully
-    * registered, installed, and activated a worker, and when a page isn't
-    * loaded in a hard refresh mode bypassing the cache.
-    *
-    * It's possible for a service worker to take a second page load to be fully
-    * activated.
-    *
-    * @return {boolean}
-    * @private
-    */
-  isWorkerControllingPage_() {
-    return navigator.serviceWorker &&
-      navigator.serviceWorker.controller &&
-      navigator.serviceWorker.controller.state === 'activated';
+   * Gives the vendor adapter the registration covering this frame, and a way
+   * to query its worker.
+   */
+  private async getVendorContext_(): Promise<PushVendorContext> {
+    const registration = navigator.serviceWorker ?
+      await navigator.serviceWorker.getRegistration() :
+      null;
+    return {
+      registration: registration || null,
+      queryWorker: (command, payload) =>
+        this.messageServiceWorkerAndAwaitReply({topic: command, payload}),
+    };
   }
 
   /**
-   * Returns a Promise that is resolved when the the page controlling the
-   * service worker is activated. This Promise never rejects.
-   *
-   * @return {Promise}
+   * Reads every registration's push subscription and push permission straight
+   * from PushManager, so workers that don't answer queries, or that don't
+   * control this frame, are still described.
    */
-  waitUntilWorkerControlsPage() {
-    return new Promise(resolve => {
-      if (this.isWorkerControllingPage_()) {
-        resolve();
-      } else {
-        navigator.serviceWorker.addEventListener(
-            'controllerchange', () => {
-          // Service worker has been claimed
-              if (this.isWorkerControllingPage_()) {
-                resolve();
-              } else {
-                navigator.serviceWorker.controller
-                    .addEventListener(
-                    'statechange',
-                    () => {
-                      if (this.isWorkerControllingPage_()) {
-                        // Service worker has been activated
-                        resolve();
-                      }
-                    });
-              }
-            });
+  async getRegistrationStates(): Promise<Array<RemoteRegistrationState>> {
+    const registrations = await getRegistrations(navigator.serviceWorker);
+    return Promise.all(registrations.map(registration =>
+      this.getRegistrationState_(registration)));
+  }
+
+  private async getRegistrationState_(registration: ServiceWorkerRegistration): Promise<RemoteRegistrationState> {
+    const details = describeRegistration(registration);
+    const state: RemoteRegistrationState = {
+      scope: details.scope,
+      scriptUrl: details.scriptUrl,
+      state: details.state,
+      pushPermissionState: null,
+      subscribed: false,
+      endpointHost: null,
+      expirationTime: null,
+    };
+    const pushManager = (registration as any).pushManager;
+    if (!pushManager) {
+      return state;
+    }
+
+    if (typeof pushManager.permissionState === 'function') {
+      try {
+        state.pushPermissionState =
+          await pushManager.permissionState({userVisibleOnly: true});
+      } catch (e) {
+        log(`Could not read the push permission for ${details.scope}:`, e);
       }
+    }
+    try {
+      const subscription =
+        serializeSubscription(await pushManager.getSubscription());
+      if (subscription) {
+        state.subscribed = true;
+        state.endpointHost = new URL(subscription.endpoint).host;
+        state.expirationTime = subscription.expirationTime;
+      }
+    } catch (e) {
+      log(`Could not read the push subscription for ${details.scope}:`, e);
+    }
+    return state;
+  }
+
+  /**
+   * Returns the worker controlling this frame, or else the active worker of the
+   * registration whose scope covers it, or null if there is neither.
+   */
+  private async findWorker_(): Promise<ServiceWorker|null> {
+    if (navigator.serviceWorker.controller) {
+      return navigator.serviceWorker.controller;
+    }
+    const registration = await navigator.serviceWorker.getRegistration();
+    return registration && registration.active || null;
+  }
+
+  async messageServiceWorkerAndAwaitReply(message: ServiceWorkerMessage) {
+    return this.workerQueries_.query(message,
+        (workerMessage: WorkerQueryMessage) => {
+      // The AMP message is forwarded to the service worker
+      return this.findWorker_().then(worker => {
+        if (!worker) {
+          throw new WorkerQueryError('unavailable', message.topic,
+            'No service worker is available to answer.');
+        }
+        worker.postMessage(workerMessage);
+      });
     });
   }
 }
 
+/**
+ * Splits comma-separated origin rules, dropping empty ones.
+ */
+function splitOriginRules(source: string): Array<string> {
+  const rules = [];
+  const sourceRules = source.split(',');
+  for (let i = 0; i < sourceRules.length; i++) {
+    if (sourceRules[i].trim()) {
+      rules.push(sourceRules[i].trim());
+    }
+  }
+  return rules;
+}
+
+function getParentOrigin(): string|null {
+  const ancestorOrigins = (location as any).ancestorOrigins;
+  if (ancestorOrigins && ancestorOrigins.length > 0) {
+    return ancestorOrigins[0];
+  }
+  if (document.referrer) {
+    try {
+      return new URL(document.referrer).origin;
+    } catch (e) {
+      return null;
+    }
+  }
+  return null;
+}
+
 function log(...args_: any[]) {
   if (typeof (window as any)._LOG !== "undefined") {
     const args = Array.prototype.slice.call(arguments);
@@ -0,0 +1,41 @@
+import {ServiceWorkerCommands} from './service-worker-commands';
+
+/**
+ * This JavaScript file is loaded by a publisher's own service worker with:
+ *
+ *   self.AMP_WEB_PUSH_WORKER_CONFIG = {
+ *     allowedOrigins: ['https://example.com'],
+ *   };
+ *   importScripts('https://example.com/amp-http-service-worker.js');
+ *
+ * It answers the commands the helper frame and remote frame send the worker,
+ * like 'amp-web-push-subscription-state'. allowedOrigins defaults to the
+ * worker's own origin, which is where both frames run.
+ *
+ * Vendors can answer more commands, or replace the default answers, with:
+ *
+ *   self.AmpWebPushServiceWorker.register('command', (payload, context) => ...);
+ */
+
+interface WorkerConfig {
+  allowedOrigins?: Array<string>,
+  debug?: boolean,
+}
+
+const workerScope = self as any;
+const config: WorkerConfig = workerScope.AMP_WEB_PUSH_WORKER_CONFIG || {};
+
+const commands = new ServiceWorkerCommands({
+  registration: workerScope.registration,
+  allowedOrigins: config.allowedOrigins || [workerScope.location.origin],
+  debug: !!config.debug || typeof workerScope._LOG !== "undefined",
+});
+
+workerScope.addEventListener('message', (event: any) => {
+  const handled = commands.handleMessage(event.data, event.source);
+  if (typeof event.waitUntil === 'function') {
+    event.waitUntil(handled);
+  }
+});
+
+workerScope.AmpWebPushServiceWorker = commands;
@@ -14,31 +14,96 @@
  * the License.
  */
 
-import {parseQueryString} from './utils';
+import {HelperFrameConfigError, parseHelperFrameConfig} from './helper-frame-config';
 import {WindowMessenger} from './window-messenger';
-import { NotificationPermission } from './vars';
+import {
+  describeRegistration,
+  findRegistrationByScope,
+  getRegistrations,
+  registrationRunsScript,
+} from './registrations';
+import {serializeSubscription} from './push-subscriptions';
+import {
+  getPushVendorAdapter,
+  PushVendorAdapter,
+  PushVendorContext,
+} from './push-vendor-adapters';
+import {
+  queryNotificationPermission,
+  requestNotificationPermission,
+} from './notification-permission';
+import {VerdictCache} from './verdict-cache';
+import {
+  detectSubscription,
+  SubscriptionDetectionRules,
+  validateDetectionRules,
+} from './subscription-detection';
+import {
+  ServiceWorkerQueries,
+  WorkerQueryError,
+} from './service-worker-queries';
+import {
+  AlternateCheckResult,
+  AltOriginOutcome,
+  DetectionVerdict,
+  NotificationPermissionRequestMessage,
+  OriginMigrationResult,
+  PushSubscribeMessage,
+  ServiceWorkerMessage,
+  ServiceWorkerRegistrationMessage,
+  ServiceWorkerReplaceMessage,
+  ServiceWorkerScopeMessage,
+  ServiceWorkerStateResult,
+  SubscriptionStateMessage,
+  WorkerPath,
+} from './topics';
+
+export {
+  AlternateCheckResult,
+  AltOriginOutcome,
+  OriginMigrationResult,
+  ServiceWorkerMessage,
+  ServiceWorkerRegistrationMessage,
+  SubscriptionStateMessage,
+} from './topics';
 
 interface HelperFrameOptions {
   debug: boolean,
   windowContext: Window,
+  /**
+   * The number of milliseconds a service worker query waits for the worker's
+   * reply, unless the AMP page's query specifies its own timeout. Defaults to
+   * DEFAULT_WORKER_QUERY_TIMEOUT.
+   */
+  workerQueryTimeout?: number,
+  /**
+   * The number of milliseconds a service worker query waits for a worker to
+   * take control of the page, when no worker controls it and no active
+   * registration exists yet. Defaults to DEFAULT_WORKER_WAIT_TIMEOUT.
+   */
+  workerWaitTimeout?: number,
+  /**
+   * How push subscriptions are made and removed. Defaults to OneSignal's
+   * adapter.
+   */
+  vendorAdapter?: PushVendorAdapter,
+  /**
+   * The oldest protocol version accepted from the AMP page. Defaults to
+   * WindowMessenger.MIN_PROTOCOL_VERSION, so AMP pages whose messenger predates
+   * the connection challenge can still connect, unchallenged.
+   */
+  minProtocolVersion?: number,
 }
 
-export interface ServiceWorkerMessage {
-  topic: string,
-  payload: any
-}
-
-export interface SubscriptionStateMessage {
-  notificationPermission: NotificationPermission,
-  serviceWorkerUrl: string;
-  serviceWorkerState: string;
-  serviceWorkerIsControllingFrame: boolean;
-  serviceWorkerSubscriptionState: boolean;
-}
+const DEFAULT_WORKER_QUERY_TIMEOUT = 10000;
+const DEFAULT_WORKER_WAIT_TIMEOUT = 5000;
 
-export interface ServiceWorkerRegistrationMessage {
-  workerUrl: string,
-  registrationOptions: {scope: string}
+/**
+ * The worker a query is posted to, and how it was found.
+ */
+interface WorkerTarget {
+  path: WorkerPath,
+  worker: ServiceWorker|null,
 }
 
  /**
@@ -53,7 +118,20 @@ export class AmpWebPushHelperFrame {
   private debug_: boolean;
   private window_: Window;
   private ampMessenger_: WindowMessenger;
-  private allowedWorkerMessageTopics_: Map<string, () => void>;
+  private workerQueries_: ServiceWorkerQueries;
+  private workerWaitTimeout_: number;
+  protected vendorAdapter_: PushVendorAdapter;
+  /**
+   * Answers the AMP page's requests to re-check the alternate origins, if
+   * this helper frame checks any.
+   */
+  private alternateChecker_: AlternateSubscriptionChecker|null;
+  /**
+   * The result of the last alternate origin check. While it's blocked, every
+   * AMP web push topic is refused, so the widget stays disabled.
+   */
+  private alternateCheckResult_: AlternateCheckResult|null;
+  private onWorkerMessageReceivedProc_: ((event: MessageEvent) => void)|null;
 
   constructor(options: HelperFrameOptions) {
     /**
@@ -69,21 +147,87 @@ export class AmpWebPushHelperFrame {
     this.ampMessenger_ = new WindowMessenger({
       debug: this.debug_,
       windowContext: this.window_,
+      minProtocolVersion: options && options.minProtocolVersion,
     });
 
     /**
-     * Describes the messages we allow through from the service worker. Whenever
-     * the AMP page sends a 'query service worker' message with a topic string,
-     * we add the topic to the allowed list, and wait for the service worker to
-     * reply. Once we get a reply, we remove it from the allowed topics.
+     * Tracks the queries the AMP page sends the service worker. Each query
+     * carries a request ID the worker echoes back, so concurrent queries with
+     * the same topic each get their own reply.
      */
-    this.allowedWorkerMessageTopics_ = {} as any;
+    this.workerQueries_ = new ServiceWorkerQueries(
+        options && typeof options.workerQueryTimeout === 'number' ?
+          options.workerQueryTimeout :
+          DEFAULT_WORKER_QUERY_TIMEOUT
+    );
+    this.workerWaitTimeout_ =
+      options && typeof options.workerWaitTimeout === 'number' ?
+        options.workerWaitTimeout :
+        DEFAULT_WORKER_WAIT_TIMEOUT;
+    this.alternateChecker_ = null;
+    this.alternateCheckResult_ = null;
+    this.onWorkerMessageReceivedProc_ = null;
+    this.vendorAdapter_ = options && options.vendorAdapter ||
+      getPushVendorAdapter();
   }
 
   public finishListenHandshake() {
     this.ampMessenger_.finishListenHandshake();
   }
 
+  public setAlternateSubscriptionChecker(checker: AlternateSubscriptionChecker) {
+    this.alternateChecker_ = checker;
+  }
+
+  /**
+   * Records the result of an alternate origin check. A blocked result keeps AMP
+   * web push disabled, and the AMP page can read it with the diagnostics topic.
+   */
+  public setAlternateCheckResult(result: AlternateCheckResult) {
+    this.alternateCheckResult_ = result;
+  }
+
+  private isBlocked_(): boolean {
+    return !!this.alternateCheckResult_ && this.alternateCheckResult_.blocked;
+  }
+
+  private createBlockedError_(): Error {
+    const result = this.alternateCheckResult_;
+    const error = new Error(`AMP web push is disabled: ${result.blockingOrigin} ` +
+      `blocks it (${result.reason}).`);
+    (error as any).code = 'blocked-by-alternate-origin';
+    return error;
+  }
+
+  /**
+   * Wraps an AMP page topic handler to reply with a
+   * 'blocked-by-alternate-origin' error while an alternate origin blocks AMP
+   * web push.
+   */
+  private unlessBlocked_(handler: (message: any, replyToFrame: any) => any) {
+    return (message: any, replyToFrame: any) => {
+      if (this.isBlocked_()) {
+        return this.replyWithResult_(replyToFrame,
+            Promise.reject(this.createBlockedError_()));
+      }
+      return handler.call(this, message, replyToFrame);
+    };
+  }
+
+  /**
+   * Wraps a producer to end observations right away while an alternate origin
+   * blocks AMP web push.
+   */
+  private produceUnlessBlocked_(producer: (emit: (data: any) => void) => () => void) {
+    return (emit: (data: any) => void, end: (reason: string) => void) => {
+      if (this.isBlocked_()) {
+        end(this.createBlockedError_().message);
+        return () => {};
+      }
+      return producer.call(this, emit);
+    };
+  }
+
   /**
    * Ensures replies to the AMP page messenger have a consistent payload format.
    */
@@ -108,8 +252,28 @@ export class AmpWebPushHelperFrame {
     );
   }
 
+  /**
+   * Prompts for the notification permission on the canonical origin. The AMP
+   * page must only send this in response to a user gesture.
+   */
+  private onAmpPageMessageReceivedNotificationPermissionRequest_(message: NotificationPermissionRequestMessage, replyToFrame: any) {
+    if (!message.userActivated) {
+      const error = new Error('The notification permission can only be ' +
+        'requested in response to a user gesture on the AMP page.');
+      (error as any).code = 'not-user-activated';
+      return this.replyWithResult_(replyToFrame, Promise.reject(error));
+    }
+    return this.replyWithResult_(replyToFrame,
+        requestNotificationPermission(this.window_));
+  }
+
   private onAmpPageMessageReceivedServiceWorkerState_(_, replyToFrame) {
-    const serviceWorkerState = {
+    this.replyToFrameWithPayload_(replyToFrame, true, null,
+        this.getServiceWorkerState_());
+  }
+
+  private getServiceWorkerState_(): ServiceWorkerStateResult {
+    return {
       /*
         Describes whether navigator.serviceWorker.controller is non-null.
 
@@ -134,79 +298,369 @@ export class AmpWebPushHelperFrame {
         this.window_.navigator.serviceWorker.controller.state :
         null,
     };
+  }
+
+  /**
+   * Pushes the notification permission to an AMP page observer whenever it
+   * changes, using the Permissions API change event where available. Without
+   * the Permissions API, only the current permission is pushed.
+   */
+  private produceNotificationPermission_(emit: (permission: NotificationPermission) => void) {
+    let lastPermission = null;
+    let permissionStatus = null;
+    let stopped = false;
+    const emitIfChanged = () => {
+      // The Permissions API reports 'prompt' where the Notification API reports
+      // 'default', so always read the permission from the Notification API
+      const permission = (Notification as any).permission;
+      if (permission !== lastPermission) {
+        lastPermission = permission;
+        emit(permission);
+      }
+    };
+    emitIfChanged();
 
-    this.replyToFrameWithPayload_(replyToFrame, true, null, serviceWorkerState);
+    const permissions = (this.window_.navigator as any).permissions;
+    if (permissions && typeof permissions.query === 'function') {
+      permissions.query({name: 'notifications'}).then(status => {
+        if (stopped) {
+          return;
+        }
+        permissionStatus = status;
+        permissionStatus.addEventListener('change', emitIfChanged);
+      }).catch(error => {
+        log('Could not watch the notification permission:', error);
+      });
+    }
+    return () => {
+      stopped = true;
+      if (permissionStatus) {
+        permissionStatus.removeEventListener('change', emitIfChanged);
+      }
+    };
   }
 
+  /**
+   * Pushes the service worker state to an AMP page observer whenever the
+   * controlling worker changes (controllerchange) or the controlling worker's
+   * state changes (statechange).
+   */
+  private produceServiceWorkerState_(emit: (state: ServiceWorkerStateResult) => void) {
+    const serviceWorkerContainer = this.window_.navigator.serviceWorker;
+    let lastState = null;
+    let watchedWorker: ServiceWorker = null;
+    const watchController = () => {
+      const controller = serviceWorkerContainer.controller;
+      if (controller === watchedWorker) {
+        return;
+      }
+      if (watchedWorker) {
+        watchedWorker.removeEventListener('statechange', emitIfChanged);
+      }
+      watchedWorker = controller;
+      if (watchedWorker) {
+        watchedWorker.addEventListener('statechange', emitIfChanged);
+      }
+    };
+    const emitIfChanged = () => {
+      watchController();
+      const state = this.getServiceWorkerState_();
+      const serializedState = JSON.stringify(state);
+      if (serializedState !== lastState) {
+        lastState = serializedState;
+        emit(state);
+      }
+    };
+    emitIfChanged();
+    serviceWorkerContainer.addEventListener('controllerchange', emitIfChanged);
+    return () => {
+      serviceWorkerContainer.removeEventListener('controllerchange',
+          emitIfChanged);
+      if (watchedWorker) {
+        watchedWorker.removeEventListener('statechange', emitIfChanged);
+      }
+    };
+  }
+
+  /**
+   * The message has already been validated by WindowMessenger against the
+   * topic's registered shape.
+   */
   private onAmpPageMessageReceivedServiceWorkerRegistration_(message: ServiceWorkerRegistrationMessage, replyToFrame: any) {
-    if (!message || !message.workerUrl || !message.registrationOptions) {
-      throw new Error('Expected arguments workerUrl and registrationOptions ' +
-        'in message, got:' + message);
+    return this.replyWithResult_(replyToFrame,
+        this.window_.navigator.serviceWorker.register(
+            message.workerUrl,
+            message.registrationOptions
+        ).then(describeRegistration));
+  }
+
+  private onAmpPageMessageReceivedServiceWorkerUpdate_(message: ServiceWorkerScopeMessage|null, replyToFrame: any) {
+    return this.replyWithResult_(replyToFrame,
+        this.getRegistrationOrFail_(message).then(registration => {
+          return registration.update().then(() =>
+            describeRegistration(registration));
+        }));
+  }
+
+  private onAmpPageMessageReceivedServiceWorkerUnregister_(message: ServiceWorkerScopeMessage|null, replyToFrame: any) {
+    return this.replyWithResult_(replyToFrame,
+        this.getRegistrationOrFail_(message).then(registration => {
+          // Describe it first: an unregistered registration loses its workers
+          const details = describeRegistration(registration);
+          return registration.unregister().then(unregistered => ({
+            unregistered,
+            registration: details,
+          }));
+        }));
+  }
+
+  private onAmpPageMessageReceivedServiceWorkerListRegistrations_(_: any, replyToFrame: any) {
+    return this.replyWithResult_(replyToFrame,
+        getRegistrations(this.window_.navigator.serviceWorker)
+          .then(registrations => registrations.map(describeRegistration)));
+  }
+
+  /**
+   * Registers the new worker script, and only once that succeeds, unregisters
+   * the registrations running any of the replaced scripts. A failed
+   * registration leaves every existing registration in place.
+   *
+   * A replaced registration with the same scope as the new one isn't
+   * unregistered; registering already swapped its script.
+   */
+  private onAmpPageMessageReceivedServiceWorkerReplace_(message: ServiceWorkerReplaceMessage, replyToFrame: any) {
+    const serviceWorkerContainer = this.window_.navigator.serviceWorker;
+    const baseUrl = this.window_.location.href;
+    const replacesWorkerUrls = message.replacesWorkerUrls || [];
+    return this.replyWithResult_(replyToFrame,
+        serviceWorkerContainer.register(
+            message.workerUrl,
+            message.registrationOptions
+        ).then(newRegistration => {
+          return getRegistrations(serviceWorkerContainer).then(registrations => {
+            const replaced = registrations.filter(registration =>
+              registration.scope !== newRegistration.scope &&
+              registrationRunsScript(registration, replacesWorkerUrls, baseUrl)
+            );
+            const replacedDetails = replaced.map(describeRegistration);
+            return Promise.all(replaced.map(registration =>
+              registration.unregister()
+            )).then(() => ({
+              registration: describeRegistration(newRegistration),
+              unregistered: replacedDetails,
+            }));
+          });
+        }));
+  }
+
+  /**
+   * Subscribes to push directly through the registration's PushManager on this
+   * canonical origin, without relying on the vendor's service worker code.
+   */
+  private onAmpPageMessageReceivedPushSubscribe_(message: PushSubscribeMessage, replyToFrame: any) {
+    return this.replyWithResult_(replyToFrame,
+        this.getRegistrationOrFail_(message).then(registration => {
+          return this.vendorAdapter_.subscribe(
+              this.getVendorContext_(registration),
+              message.applicationServerKey);
+        }));
+  }
+
+  private onAmpPageMessageReceivedPushUnsubscribe_(message: ServiceWorkerScopeMessage|null, replyToFrame: any) {
+    return this.replyWithResult_(replyToFrame,
+        this.getRegistrationOrFail_(message).then(registration => {
+          return this.vendorAdapter_.unsubscribe(
+              this.getVendorContext_(registration));
+        }));
+  }
+
+  private onAmpPageMessageReceivedPushGetSubscription_(message: ServiceWorkerScopeMessage|null, replyToFrame: any) {
+    return this.replyWithResult_(replyToFrame,
+        this.getRegistrationOrFail_(message).then(registration => {
+          return registration.pushManager.getSubscription();
+        }).then(serializeSubscription));
+  }
+
+  /**
+   * Discards the cached alternate origin verdicts and checks every alternate
+   * origin again, for example after the visitor unsubscribed on one of them.
+   * Only reports the result: the AMP page decides what to do with a block.
+   */
+  private onAmpPageMessageReceivedAlternateOriginRecheck_(_: any, replyToFrame: any) {
+    if (!this.alternateChecker_) {
+      const error = new Error('This helper frame has no alternate origins ' +
+        'to check.');
+      (error as any).code = 'unavailable';
+      return this.replyWithResult_(replyToFrame, Promise.reject(error));
     }
+    return this.replyWithResult_(replyToFrame,
+        this.alternateChecker_.check(true).then(result => {
+          this.setAlternateCheckResult(result);
+          return result;
+        }));
+  }
 
-    this.window_.navigator.serviceWorker.register(
-        message.workerUrl,
-        message.registrationOptions
-    ).then(() => {
-      this.replyToFrameWithPayload_(replyToFrame, true, null, null);
-    })
-        .catch(error => {
-          this.replyToFrameWithPayload_(replyToFrame, true, null, error ?
-        (error.message || error.toString()) :
-        null
-      );
-        });
+  /**
+   * Replies with the result of the last alternate origin check, including why
+   * AMP web push is blocked, or null if no check has finished.
+   */
+  private onAmpPageMessageReceivedAlternateOriginDiagnostics_(_: any, replyToFrame: any) {
+    this.replyToFrameWithPayload_(replyToFrame, true, null,
+        this.alternateCheckResult_);
   }
 
-  messageServiceWorker(message: ServiceWorkerMessage) {
-    this.window_.navigator.serviceWorker.controller.postMessage({
-      command: message.topic,
-      payload: message.payload,
+  /**
+   * Finds the registration named by the message's scope, or rejects with a
+   * 'not-found' error.
+   */
+  private getRegistrationOrFail_(message: ServiceWorkerScopeMessage|null): Promise<ServiceWorkerRegistration> {
+    const scope = message ? message.scope : undefined;
+    return findRegistrationByScope(
+        this.window_.navigator.serviceWorker,
+        scope,
+        this.window_.location.href
+    ).then(registration => {
+      if (!registration) {
+        const error = new Error(scope ?
+          `No service worker registration has the scope ${scope}.` :
+          'No service worker registration controls this page.');
+        (error as any).code = 'not-found';
+        throw error;
+      }
+      return registration;
     });
   }
 
-  private onAmpPageMessageReceivedServiceWorkerQuery_(message: ServiceWorkerMessage, replyToFrame) {
-    if (!message || !message.topic) {
-      throw new Error('Expected argument topic in message, got:' + message);
-    }
-    new Promise(resolve => {
-      // Allow this message through, just for the next time it's received
-      this.allowedWorkerMessageTopics_[message.topic] = resolve;
+  /**
+   * Replies to the AMP page with the promised result, or with a structured
+   * error describing why it failed.
+   */
+  private replyWithResult_(replyToFrame: any, resultPromise: Promise<any>): Promise<void> {
+    return resultPromise.then(result => {
+      this.replyToFrameWithPayload_(replyToFrame, true, null, result);
+    }, error => {
+      this.replyToFrameWithPayload_(replyToFrame, false,
+          this.describeError_(error), null);
+    });
+  }
 
-      // The AMP message is forwarded to the service worker
-      this.waitUntilWorkerControlsPage().then(() => {
-        this.messageServiceWorker(message);
-      });
-    }).then(workerReplyPayload => {
-      delete this.allowedWorkerMessageTopics_[message.topic];
+  private describeError_(error: any): {code: string, message: string} {
+    return {
+      code: error && (error.code && typeof error.code === 'string' ?
+        error.code :
+        error.name) || 'error',
+      message: error ? (error.message || error.toString()) : String(error),
+    };
+  }
 
-      // The service worker's reply is forwarded back to the AMP page
-      return this.replyToFrameWithPayload_(
-          replyToFrame,
-          true,
-          null,
-          workerReplyPayload
+  /**
+   * Finds the worker to post a query to.
+   *
+   * The controller is preferred. Without one, which happens after a hard
+   * refresh or on the first page load after registration, the active worker of
+   * this page's registration is messaged directly; it replies to this page as
+   * a client all the same. Failing both, waits up to the wait deadline for a
+   * worker to take control.
+   */
+  private findWorkerToMessage_(): Promise<WorkerTarget> {
+    const serviceWorkerContainer = this.window_.navigator.serviceWorker;
+    if (!serviceWorkerContainer) {
+      return Promise.resolve({path: 'unavailable' as WorkerPath, worker: null});
+    }
+    if (this.isWorkerControllingPage_()) {
+      return Promise.resolve({
+        path: 'controller' as WorkerPath,
+        worker: serviceWorkerContainer.controller,
+      });
+    }
+    return serviceWorkerContainer.getRegistration().then(registration => {
+      if (registration && registration.active) {
+        return {
+          path: 'active-registration' as WorkerPath,
+          worker: registration.active,
+        };
+      }
+      return this.waitUntilWorkerControlsPage(this.workerWaitTimeout_).then(
+          () => ({
+            path: 'controller' as WorkerPath,
+            worker: serviceWorkerContainer.controller,
+          }),
+          () => ({path: 'unavailable' as WorkerPath, worker: null})
       );
     });
   }
 
-  private getParentOrigin_(): string {
-    const queryParams = parseQueryString(this.window_.location.search);
-    if (!queryParams['parentOrigin']) {
-      throw new Error('Expecting parentOrigin URL query parameter.');
-    }
-    return queryParams['parentOrigin'];
+  /**
+   * Gives the vendor adapter the registration, and a way to query the worker
+   * the same way the AMP page's service worker queries do.
+   */
+  private getVendorContext_(registration: ServiceWorkerRegistration|null): PushVendorContext {
+    return {
+      registration,
+      queryWorker: (command, payload) => {
+        return this.workerQueries_.query({topic: command, payload},
+            workerMessage => {
+          return this.findWorkerToMessage_().then(target => {
+            if (!target.worker) {
+              throw new WorkerQueryError('unavailable', command,
+                'No service worker controls this page or is active for it.');
+            }
+            target.worker.postMessage(workerMessage);
+          });
+        });
+      },
+    };
   }
 
-  private onPageMessageReceivedFromServiceWorker_(event: MessageEvent) {
-    const {command, payload} = event.data;
-    const callbackPromiseResolver = this.allowedWorkerMessageTopics_[command];
+  /**
+   * The message has already been validated by WindowMessenger against the
+   * topic's registered shape.
+   */
+  private onAmpPageMessageReceivedServiceWorkerQuery_(message: ServiceWorkerMessage, replyToFrame) {
+    // Reported back to the AMP page so it knows how the worker was reached
+    let workerPath: WorkerPath = 'unavailable';
+    return this.workerQueries_.query(message, workerMessage => {
+      // The AMP message is forwarded to the service worker
+      return this.findWorkerToMessage_().then(target => {
+        workerPath = target.path;
+        if (!target.worker) {
+          throw new WorkerQueryError('unavailable', message.topic,
+            'No service worker controls this page or is active for it.');
+        }
+        target.worker.postMessage(workerMessage);
+      });
+    }, message.timeout).then(workerReplyPayload => {
+      // The service worker's reply is forwarded back to the AMP page
+      replyToFrame({
+        success: true,
+        result: workerReplyPayload,
+        workerPath,
+      });
+    }, error => {
+      replyToFrame({
+        success: false,
+        error: this.describeError_(error),
+        workerPath,
+      });
+    });
+  }
 
-    if (typeof callbackPromiseResolver === 'function') {
-      // Resolve the waiting listener with the worker's reply payload
-      callbackPromiseResolver(payload);
+  /**
+   * Reads the allowed origin rules from the helper frame URL: the parentOrigin
+   * key, plus any allowedOrigins rules (for example,
+   * https://*.cdn.ampproject.org). See helper-frame-config.ts.
+   *
+   * Throws a HelperFrameConfigError if the URL's configuration is invalid or
+   * allows no origin.
+   */
+  private getAllowedOrigins_(): Array<string> {
+    const {options} = parseHelperFrameConfig(this.window_.location.search,
+        this.window_.location.hash);
+    if (options.allowedOrigins.length === 0) {
+      throw new HelperFrameConfigError('missing-key', 'parentOrigin',
+        'The helper frame URL should set parentOrigin or allowedOrigins.');
     }
-    // Otherwise, ignore unsolicited messages from the service worker
+    return options.allowedOrigins;
   }
 
   /**
@@ -230,67 +684,287 @@ export class AmpWebPushHelperFrame {
 
   /**
    * Returns a Promise that is resolved when the the page controlling the
-   * service worker is activated. This Promise never rejects.
+   * service worker is activated.
+   *
+   * @param timeout The number of milliseconds to wait before rejecting with an
+   * 'unavailable' WorkerQueryError. Omit or pass 0 to never reject.
    */
-  waitUntilWorkerControlsPage(): Promise<void> {
-    return new Promise(resolve => {
+  waitUntilWorkerControlsPage(timeout?: number): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
       if (this.isWorkerControllingPage_()) {
         resolve();
-      } else {
-        this.window_.navigator.serviceWorker.addEventListener(
-            'controllerchange', () => {
-          // Service worker has been claimed
-              if (this.isWorkerControllingPage_()) {
-                resolve();
-              } else {
-                this.window_.navigator.serviceWorker.controller
-                    .addEventListener(
-                    'statechange',
-                    () => {
-                      if (this.isWorkerControllingPage_()) {
-                        // Service worker has been activated
-                        resolve();
-                      }
-                    });
-              }
-            });
+        return;
+      }
+      const serviceWorkerContainer = this.window_.navigator.serviceWorker;
+      let watchedWorker: ServiceWorker = null;
+      let timeoutId = null;
+      const cleanup = () => {
+        serviceWorkerContainer.removeEventListener('controllerchange',
+            onChange);
+        if (watchedWorker) {
+          watchedWorker.removeEventListener('statechange', onChange);
+        }
+        if (timeoutId !== null) {
+          clearTimeout(timeoutId);
+        }
+      };
+      const onChange = () => {
+        if (this.isWorkerControllingPage_()) {
+          // Service worker has been claimed and activated
+          cleanup();
+          resolve();
+          return;
+        }
+        const controller = serviceWorkerContainer.controller;
+        if (controller && controller !== watchedWorker) {
+          if (watchedWorker) {
+            watchedWorker.removeEventListener('statechange', onChange);
+          }
+          watchedWorker = controller;
+          watchedWorker.addEventListener('statechange', onChange);
+        }
+      };
+      serviceWorkerContainer.addEventListener('controllerchange', onChange);
+      if (timeout > 0) {
+        timeoutId = setTimeout(() => {
+          cleanup();
+          reject(new WorkerQueryError('unavailable', null,
+            `No service worker took control of the page within ${timeout} ` +
+            'ms.'));
+        }, timeout);
       }
     });
   }
 
   /**
    * Sets up message listeners for messages from the AMP page and service
-   * worker.
+   * worker, and accepts the AMP page's connection right away. This is the HTTPS
+   * mode, where the helper frame is on the site's own origin and no alternate
+   * origins have to be checked first.
+   *
+   * @param allowedOrigin The allowed origin rule, or a list of rules. Pass
+   * null to read them from the helper frame URL.
+   * @returns A Promise that resolves once the AMP page has connected, or
+   * rejects if listening failed.
+   */
+  listen(allowedOrigin: string|Array<string>|null): Promise<void> {
+    return this.listen_(allowedOrigin, false);
+  }
+
+  /**
+   * Sets up message listeners for messages from the AMP page and service
+   * worker, but holds back the end of the AMP page's connection handshake until
+   * finishListenHandshake() is called. This is the HTTP mode, where alternate
+   * origins are checked first.
    *
-   * @param allowedOrigin For testing purposes only. Pass in the
-   * allowedOrigin since test environments cannot access the parent origin.
+   * @param allowedOrigin The allowed origin rule, or a list of rules. Pass
+   * null to read them from the helper frame URL.
+   * @returns A Promise that resolves once the AMP page has partially
+   * connected, or rejects if listening failed.
    */
-  listenPartially(allowedOrigin: string|null) {
+  listenPartially(allowedOrigin: string|Array<string>|null): Promise<void> {
+    return this.listen_(allowedOrigin, true);
+  }
+
+  private listen_(allowedOrigin: string|Array<string>|null, delayConnectHandshake: boolean): Promise<void> {
     this.ampMessenger_.on(
         WindowMessenger.Topics.NOTIFICATION_PERMISSION_STATE,
-        this.onAmpPageMessageReceivedNotificationPermissionState_.bind(this)
+        this.unlessBlocked_(this.onAmpPageMessageReceivedNotificationPermissionState_)
+    );
+    this.ampMessenger_.on(
+        WindowMessenger.Topics.NOTIFICATION_PERMISSION_REQUEST,
+        this.unlessBlocked_(this.onAmpPageMessageReceivedNotificationPermissionRequest_)
     );
     this.ampMessenger_.on(
         WindowMessenger.Topics.SERVICE_WORKER_STATE,
-        this.onAmpPageMessageReceivedServiceWorkerState_.bind(this)
+        this.unlessBlocked_(this.onAmpPageMessageReceivedServiceWorkerState_)
     );
     this.ampMessenger_.on(
         WindowMessenger.Topics.SERVICE_WORKER_REGISTRATION,
-        this.onAmpPageMessageReceivedServiceWorkerRegistration_.bind(this)
+        this.unlessBlocked_(this.onAmpPageMessageReceivedServiceWorkerRegistration_)
     );
     this.ampMessenger_.on(
         WindowMessenger.Topics.SERVICE_WORKER_QUERY,
-        this.onAmpPageMessageReceivedServiceWorkerQuery_.bind(this)
+        this.unlessBlocked_(this.onAmpPageMessageReceivedServiceWorkerQuery_)
+    );
+    this.ampMessenger_.on(
+        WindowMessenger.Topics.SERVICE_WORKER_UPDATE,
+        this.unlessBlocked_(this.onAmpPageMessageReceivedServiceWorkerUpdate_)
+    );
+    this.ampMessenger_.on(
+        WindowMessenger.Topics.SERVICE_WORKER_UNREGISTER,
+        this.unlessBlocked_(this.onAmpPageMessageReceivedServiceWorkerUnregister_)
+    );
+    this.ampMessenger_.on(
+        WindowMessenger.Topics.SERVICE_WORKER_LIST_REGISTRATIONS,
+        this.unlessBlocked_(this.onAmpPageMessageReceivedServiceWorkerListRegistrations_)
+    );
+    this.ampMessenger_.on(
+        WindowMessenger.Topics.SERVICE_WORKER_REPLACE,
+        this.unlessBlocked_(this.onAmpPageMessageReceivedServiceWorkerReplace_)
+    );
+    this.ampMessenger_.on(
+        WindowMessenger.Topics.PUSH_SUBSCRIBE,
+        this.unlessBlocked_(this.onAmpPageMessageReceivedPushSubscribe_)
+    );
+    this.ampMessenger_.on(
+        WindowMessenger.Topics.PUSH_UNSUBSCRIBE,
+        this.unlessBlocked_(this.onAmpPageMessageReceivedPushUnsubscribe_)
+    );
+    this.ampMessenger_.on(
+        WindowMessenger.Topics.PUSH_GET_SUBSCRIPTION,
+        this.unlessBlocked_(this.onAmpPageMessageReceivedPushGetSubscription_)
+    );
+    this.ampMessenger_.on(
+        WindowMessenger.Topics.ALTERNATE_ORIGIN_RECHECK,
+        this.onAmpPageMessageReceivedAlternateOriginRecheck_.bind(this)
+    );
+    this.ampMessenger_.on(
+        WindowMessenger.Topics.ALTERNATE_ORIGIN_DIAGNOSTICS,
+        this.onAmpPageMessageReceivedAlternateOriginDiagnostics_.bind(this)
+    );
+    this.ampMessenger_.provide(
+        WindowMessenger.Topics.NOTIFICATION_PERMISSION_STATE,
+        this.produceUnlessBlocked_(this.produceNotificationPermission_)
+    );
+    this.ampMessenger_.provide(
+        WindowMessenger.Topics.SERVICE_WORKER_STATE,
+        this.produceUnlessBlocked_(this.produceServiceWorkerState_)
     );
 
-    this.waitUntilWorkerControlsPage().then(() => {
+    // Listen right away: replies can come from an active worker that doesn't
+    // control this page
+    if (this.window_.navigator.serviceWorker) {
+      this.onWorkerMessageReceivedProc_ =
+        this.workerQueries_.onWorkerMessage.bind(this.workerQueries_);
       this.window_.navigator.serviceWorker.addEventListener('message',
-          this.onPageMessageReceivedFromServiceWorker_.bind(this));
-    });
-    this.ampMessenger_.listen([allowedOrigin || this.getParentOrigin_()], true);
+          this.onWorkerMessageReceivedProc_);
+    }
+    let allowedOrigins: Array<string>;
+    try {
+      allowedOrigins = allowedOrigin ?
+        [].concat(allowedOrigin) :
+        this.getAllowedOrigins_();
+    } catch (e) {
+      return Promise.reject(e);
+    }
+    return this.ampMessenger_.listen(allowedOrigins, delayConnectHandshake)
+      .catch(error => {
+        log('Could not listen for the parent AMP page connection:', error);
+        throw error;
+      });
   }
+
+  /**
+   * Stops listening to the AMP page and the service worker, and closes the
+   * connection to the AMP page if there is one.
+   */
+  dispose() {
+    this.ampMessenger_.disconnect();
+    if (this.onWorkerMessageReceivedProc_) {
+      this.window_.navigator.serviceWorker.removeEventListener('message',
+          this.onWorkerMessageReceivedProc_);
+      this.onWorkerMessageReceivedProc_ = null;
+    }
+  }
+}
+
+/**
+ * What to do when an alternate origin doesn't answer in time:
+ *   - 'block': treat it as subscribed, the safest choice against duplicate
+ *     subscriptions
+ *   - 'allow': treat it as unsubscribed
+ *   - 'allow-after-timeouts': block until the origin has failed to answer on
+ *     allowAfterTimeouts checks in a row (across page views), then allow
+ */
+export type NoAnswerPolicy = 'block' | 'allow' | 'allow-after-timeouts';
+
+export interface AlternateCheckOptions {
+  /**
+   * The number of milliseconds to wait for each origin's answer, including
+   * loading its iframe. Defaults to DEFAULT_ALT_ORIGIN_TIMEOUT.
+   */
+  perOriginTimeout?: number,
+  /**
+   * The number of milliseconds after which every origin still unanswered is
+   * considered timed out. Defaults to DEFAULT_ALT_CHECK_DEADLINE.
+   */
+  overallDeadline?: number,
+  /**
+   * Defaults to 'block'.
+   */
+  noAnswerPolicy?: NoAnswerPolicy,
+  /**
+   * For the 'allow-after-timeouts' policy, the number of checks in a row an
+   * origin must time out on before it is ignored. Defaults to 3.
+   */
+  allowAfterTimeouts?: number,
+  /**
+   * How a remote frame's reported state is classified as subscribed. Defaults
+   * to requiring every field and a OneSignal worker script.
+   */
+  detectionRules?: SubscriptionDetectionRules,
+  /**
+   * Recognizes the push vendor's workers when the detection rules don't list
+   * worker URL patterns. Defaults to OneSignal's adapter.
+   */
+  vendorAdapter?: PushVendorAdapter,
+  /**
+   * The number of milliseconds a verdict that an origin is subscribed is
+   * reused on later page views without loading its remote frame. Pass 0 to
+   * disable. Defaults to DEFAULT_POSITIVE_VERDICT_TTL.
+   */
+  positiveVerdictTtl?: number,
+  /**
+   * Like positiveVerdictTtl, for verdicts that an origin is unsubscribed.
+   * Kept shorter, since the visitor can subscribe on the origin at any time.
+   * Defaults to DEFAULT_NEGATIVE_VERDICT_TTL.
+   */
+  negativeVerdictTtl?: number,
+  /**
+   * Migration mode: instead of staying disabled when an alternate origin has
+   * a subscription, ask its remote frame to unsubscribe it, then let the
+   * visitor resubscribe on this origin. Off by default.
+   */
+  migrateSubscriptions?: boolean,
+  /**
+   * In migration mode, the number of milliseconds to wait for a remote frame
+   * to unsubscribe. An origin that doesn't manage to in time still blocks.
+   * Defaults to DEFAULT_MIGRATION_TIMEOUT.
+   */
+  migrationTimeout?: number,
+  /**
+   * In migration mode, called with the identifiers of each migrated
+   * subscription, so they can be sent to the backend to link the old
+   * subscriber record to the new one.
+   */
+  onSubscriptionMigrated?: (origin: string, migration: OriginMigrationResult) => void,
+}
+
+/**
+ * The result of checking one alternate origin.
+ */
+export interface AltOriginCheck {
+  /**
+   * The state the remote frame reported.
+   */
+  state: SubscriptionStateMessage,
+  verdict: DetectionVerdict,
+  /**
+   * In migration mode, what the remote frame did with the origin's
+   * subscription, or null if it wasn't migrated.
+   */
+  migration: OriginMigrationResult|null,
 }
 
+const DEFAULT_ALT_ORIGIN_TIMEOUT = 10000;
+const DEFAULT_ALT_CHECK_DEADLINE = 15000;
+const DEFAULT_ALLOW_AFTER_TIMEOUTS = 3;
+const TIMEOUT_COUNT_STORAGE_PREFIX = 'amp-web-push-alt-origin-timeouts:';
+const DEFAULT_POSITIVE_VERDICT_TTL = 24 * 60 * 60 * 1000;
+const DEFAULT_NEGATIVE_VERDICT_TTL = 60 * 60 * 1000;
+const DEFAULT_MIGRATION_TIMEOUT = 10000;
+
 export class AlternateSubscriptionChecker extends AmpWebPushHelperFrame {
   /**
    * An array of remote URLs, for example:
@@ -308,97 +982,506 @@ export class AlternateSubscriptionChecker extends AmpWebPushHelperFrame {
    * users.
    */
   private urls: Array<string>;
+  private checkOptions_: AlternateCheckOptions;
+  /**
+   * URLs still being checked to the functions cancelling their checks.
+   */
+  private pendingChecks_: {[url: string]: () => void};
+  /**
+   * URLs whose remote frame is migrating a subscription. They are spared when
+   * a check finishes early: the remote frame may already have unsubscribed,
+   * and the migration's identifiers must still be reported.
+   */
+  private migratingUrls_: {[url: string]: boolean};
+  private verdictCache_: VerdictCache;
 
-  constructor(urls: Array<string>) {
+  constructor(urls: Array<string>, options?: AlternateCheckOptions) {
     super({
       debug: false,
       windowContext: undefined,
+      vendorAdapter: options && options.vendorAdapter,
     });
     this.urls = urls || [];
+    this.checkOptions_ = options || {};
+    this.pendingChecks_ = {};
+    this.migratingUrls_ = {};
+    validateDetectionRules(this.checkOptions_.detectionRules);
+    this.verdictCache_ = new VerdictCache({
+      positiveTtl: this.getOption_('positiveVerdictTtl',
+          DEFAULT_POSITIVE_VERDICT_TTL),
+      negativeTtl: this.getOption_('negativeVerdictTtl',
+          DEFAULT_NEGATIVE_VERDICT_TTL),
+    });
   }
 
   /**
-   *
+   * Checks the alternate origins, and never resolves if AMP web push should
+   * stay disabled.
    */
   async run() {
-    if (this.urls.length > 0) {
-      for (const url of this.urls) {
+    const result = await this.check();
+    if (result.blocked) {
+      log(`${result.blockingOrigin} blocks AMP web push (${result.reason}). ` +
+        'Suspending AMP web push to prevent duplicate subscriptions.');
+      await this.timeoutForever();
+    }
+  }
+
+  /**
+   * Checks every alternate origin concurrently, each within the per-origin
+   * timeout and all within the overall deadline. Resolves as soon as one
+   * origin reports an active subscription, cancelling the other checks.
+   *
+   * Origins with a cached verdict aren't loaded, unless forceRecheck is set, in
+   * which case every cached verdict is discarded first. In migration mode,
+   * origins cached as subscribed are loaded anyway, to migrate them.
+   */
+  check(forceRecheck?: boolean): Promise<AlternateCheckResult> {
+    if (forceRecheck) {
+      this.verdictCache_.clear();
+    }
+    return queryNotificationPermission(window)
+      .then(permission => this.checkUncached_(permission));
+  }
+
+  private checkUncached_(permission: string): Promise<AlternateCheckResult> {
+    const outcomes: {[origin: string]: AltOriginOutcome} = {};
+    const verdicts: {[origin: string]: DetectionVerdict} = {};
+    const states: {[origin: string]: SubscriptionStateMessage} = {};
+    const cachedOrigins: Array<string> = [];
+    const migrations: {[origin: string]: OriginMigrationResult} = {};
+    const urls = this.getUrlsToCheck_().filter(url => {
+      const origin = new URL(url).origin;
+      const verdict = this.verdictCache_.get(origin, permission);
+      if (!verdict ||
+          (verdict.subscribed && this.checkOptions_.migrateSubscriptions)) {
+        return true;
+      }
+      log(`Using the cached verdict for ${origin}:`, verdict.explanation);
+      verdicts[origin] = verdict;
+      outcomes[origin] = verdict.subscribed ? 'subscribed' : 'unsubscribed';
+      cachedOrigins.push(origin);
+      return false;
+    });
+    const hasCachedSubscription = cachedOrigins
+      .some(origin => outcomes[origin] === 'subscribed');
+    if (urls.length === 0 || hasCachedSubscription) {
+      return Promise.resolve(this.decide_(outcomes, verdicts, states,
+          cachedOrigins, migrations));
+    }
+    const perOriginTimeout = this.getOption_('perOriginTimeout',
+        DEFAULT_ALT_ORIGIN_TIMEOUT);
+    const overallDeadline = this.getOption_('overallDeadline',
+        DEFAULT_ALT_CHECK_DEADLINE);
+
+    return new Promise<AlternateCheckResult>(resolve => {
+      const loadedOrigins: {[origin: string]: boolean} = {};
+      let settled = false;
+      let remaining = urls.length;
+      const finish = () => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(deadlineId);
+        for (let i = 0; i < urls.length; i++) {
+          const origin = new URL(urls[i]).origin;
+          if (!outcomes[origin]) {
+            outcomes[origin] = loadedOrigins[origin] ?
+              'timeout' :
+              'iframe-load-failed';
+          }
+        }
+        this.cancelPendingChecks_(true);
+        resolve(this.decide_(outcomes, verdicts, states, cachedOrigins,
+            migrations));
+      };
+      const deadlineId = setTimeout(() => {
+        log(`Alternate origin checks didn't finish within ${overallDeadline} ms.`);
+        if (Object.keys(this.migratingUrls_).length > 0) {
+          // Migrations have their own timeout. The other checks end now and
+          // count as unanswered, and the check finishes once the migrations do.
+          log('Waiting for the migrations in progress...');
+          this.cancelPendingChecks_(true);
+          return;
+        }
+        finish();
+      }, overallDeadline);
+
+      urls.forEach(url => {
+        const origin = new URL(url).origin;
         log(`Loading ${url} in a nested iframe to check for an existing subscription...`);
-        const isSubscribed = await this.isSubscribedToAltOrigin(url);
-        if (isSubscribed) {
-          log(`${new URL(url).origin} has an active web push subscription. Suspending AMP web push to prevent duplicate subscriptions.`);
-          await this.timeoutForever();
-        } else {
-          // Otherwise, the next URL will be checked for a subscription
-          log(`No existing subscription detected on ${new URL(url).origin}.`);
+        const onIframeLoad = () => {
+          loadedOrigins[origin] = true;
+        };
+        this.checkAltOrigin(url, perOriginTimeout, onIframeLoad).then(
+            ({state, verdict, migration}) => {
+              verdicts[origin] = verdict;
+              states[origin] = state;
+              if (migration) {
+                // The subscription is gone, so the verdict no longer holds
+                this.verdictCache_.delete(origin);
+                migrations[origin] = migration;
+                this.reportMigration_(origin, migration);
+                return 'migrated';
+              }
+              this.verdictCache_.set(origin, verdict, permission);
+              return verdict.subscribed ? 'subscribed' : 'unsubscribed';
+            },
+            error => {
+              log(`No answer from ${origin}:`, error.message);
+              if (error.code === 'cancelled') {
+                return loadedOrigins[origin] ? 'timeout' : 'iframe-load-failed';
+              }
+              return error.code === 'iframe-load-failed' ?
+                'iframe-load-failed' :
+                'timeout';
+            }
+        ).then((outcome: AltOriginOutcome) => {
+          if (settled) {
+            return;
+          }
+          outcomes[origin] = outcome;
+          remaining--;
+          if (outcome === 'subscribed') {
+            log(`${origin} has an active web push subscription:`,
+                verdicts[origin].explanation);
+            finish();
+          } else {
+            if (outcome === 'unsubscribed') {
+              log(`No existing subscription detected on ${origin}:`,
+                  verdicts[origin].explanation);
+            } else if (outcome === 'migrated') {
+              log(`Migrated the existing subscription on ${origin}:`,
+                  migrations[origin]);
+            }
+            if (remaining === 0) {
+              finish();
+            }
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * Returns the URLs to check, keeping one URL per origin: two remote frames on
+   * the same origin would report the same state, and their connection messages
+   * can't be told apart.
+   */
+  private getUrlsToCheck_(): Array<string> {
+    const seenOrigins = {};
+    return this.urls.filter(url => {
+      const origin = new URL(url).origin;
+      if (seenOrigins[origin]) {
+        log(`Skipping ${url}: ${origin} is already being checked.`);
+        return false;
+      }
+      seenOrigins[origin] = true;
+      return true;
+    });
+  }
+
+  private getOption_(name: string, defaultValue: number): number {
+    const value = this.checkOptions_[name];
+    return typeof value === 'number' ? value : defaultValue;
+  }
+
+  /**
+   * Turns the outcome of each origin's check into a verdict, applying the
+   * no-answer policy to origins that timed out.
+   */
+  private decide_(
+    outcomes: {[origin: string]: AltOriginOutcome},
+    verdicts: {[origin: string]: DetectionVerdict},
+    states: {[origin: string]: SubscriptionStateMessage},
+    cachedOrigins: Array<string>,
+    migrations: {[origin: string]: OriginMigrationResult}): AlternateCheckResult {
+    const origins = Object.keys(outcomes);
+    const timedOutOrigins = [];
+    const isNoAnswer = (origin: string) =>
+      outcomes[origin] === 'timeout' ||
+      outcomes[origin] === 'iframe-load-failed';
+    const policy = this.checkOptions_.noAnswerPolicy || 'block';
+    let subscribedOrigin = null;
+    for (let i = 0; i < origins.length; i++) {
+      const origin = origins[i];
+      if (outcomes[origin] === 'subscribed' && !subscribedOrigin) {
+        subscribedOrigin = origin;
+      }
+      if (isNoAnswer(origin)) {
+        timedOutOrigins.push(origin);
+      } else if (policy === 'allow-after-timeouts') {
+        // Any answer ends the origin's streak of timeouts
+        this.setTimeoutCount_(origin, 0);
+      }
+    }
+    if (subscribedOrigin) {
+      // The other origins' checks were cut short, so their missing answers
+      // don't count towards their streaks
+      return {
+        blocked: true,
+        blockingOrigin: subscribedOrigin,
+        reason: 'subscribed',
+        outcomes,
+        verdicts,
+        states,
+        cachedOrigins,
+        migrations,
+      };
+    }
+
+    let blockingOrigin = null;
+    if (policy === 'block') {
+      blockingOrigin = timedOutOrigins[0] || null;
+    } else if (policy === 'allow-after-timeouts') {
+      const allowAfterTimeouts = this.getOption_('allowAfterTimeouts',
+          DEFAULT_ALLOW_AFTER_TIMEOUTS);
+      for (let i = 0; i < timedOutOrigins.length; i++) {
+        const origin = timedOutOrigins[i];
+        const timeoutCount = this.getTimeoutCount_(origin) + 1;
+        this.setTimeoutCount_(origin, timeoutCount);
+        if (timeoutCount < allowAfterTimeouts && !blockingOrigin) {
+          blockingOrigin = origin;
         }
       }
     }
+    return {
+      blocked: !!blockingOrigin,
+      blockingOrigin,
+      reason: blockingOrigin ?
+        outcomes[blockingOrigin] as ('timeout' | 'iframe-load-failed') :
+        null,
+      outcomes,
+      verdicts,
+      states,
+      cachedOrigins,
+      migrations,
+    };
+  }
+
+  /**
+   * Returns how many checks in a row the origin has timed out on, as stored in
+   * this origin's localStorage.
+   */
+  private getTimeoutCount_(origin: string): number {
+    try {
+      return parseInt(
+          localStorage.getItem(TIMEOUT_COUNT_STORAGE_PREFIX + origin), 10) || 0;
+    } catch (e) {
+      // Storage can be unavailable, like with third-party cookies blocked
+      return 0;
+    }
+  }
+
+  private setTimeoutCount_(origin: string, count: number) {
+    try {
+      if (count > 0) {
+        localStorage.setItem(TIMEOUT_COUNT_STORAGE_PREFIX + origin,
+            String(count));
+      } else {
+        localStorage.removeItem(TIMEOUT_COUNT_STORAGE_PREFIX + origin);
+      }
+    } catch (e) {
+      log('Could not store the alternate origin timeout count:', e);
+    }
+  }
+
+  private reportMigration_(origin: string, migration: OriginMigrationResult) {
+    if (!this.checkOptions_.onSubscriptionMigrated) {
+      return;
+    }
+    try {
+      this.checkOptions_.onSubscriptionMigrated(origin, migration);
+    } catch (e) {
+      log('The subscription migration callback threw:', e);
+    }
+  }
+
+  /**
+   * @param spareMigrations Leaves the checks migrating a subscription running.
+   */
+  private cancelPendingChecks_(spareMigrations?: boolean) {
+    const urls = Object.keys(this.pendingChecks_);
+    for (let i = 0; i < urls.length; i++) {
+      if (!spareMigrations || !this.migratingUrls_[urls[i]]) {
+        this.pendingChecks_[urls[i]]();
+      }
+    }
+  }
+
+  /**
+   * Cancels the checks in progress, which then count as unanswered, and
+   * removes their iframes.
+   */
+  dispose() {
+    this.cancelPendingChecks_();
+    super.dispose();
   }
 
   private async timeoutForever() {
     return await new Promise(resolve => {});
   }
 
-  async isSubscribedToAltOrigin(url: string) {
+  /**
+   * Resolves with whether the URL's origin has an active subscription.
+   */
+  isSubscribedToAltOrigin(url: string, timeout?: number): Promise<boolean> {
+    return this.checkAltOrigin(url, timeout)
+      .then(check => check.verdict.subscribed);
+  }
+
+  /**
+   * Loads the remote frame for the URL and resolves with the detection verdict
+   * for its origin's reported state. In migration mode, a subscribed origin's
+   * remote frame is then asked to unsubscribe; if it can't, the check resolves
+   * without a migration.
+   *
+   * Rejects if the remote frame doesn't report its state within the timeout,
+   * or if the check is cancelled. The rejection's code is 'iframe-load-failed'
+   * if the iframe failed or never finished loading, 'timeout' if it loaded but
+   * didn't answer, and 'cancelled' if the check was cancelled. The iframe and
+   * its messenger are removed in every case.
+   *
+   * @param onIframeLoad Called once the remote frame's iframe has loaded.
+   */
+  checkAltOrigin(url: string, timeout?: number, onIframeLoad?: () => void): Promise<AltOriginCheck> {
     // Before loading the iframe, prepare a messenger to listen to messages from
     // the iframe
+    // The remote frame is ours, so it always speaks the nonce protocol; a peer
+    // claiming an older version would be skipping the challenge
     const messenger = new WindowMessenger({
       debug: false,
       windowContext: window,
+      minProtocolVersion: WindowMessenger.NONCE_PROTOCOL_VERSION,
     });
 
-   /*
-    * The remote frame should automatically respond to our messenger to tell us
-    * the remote origin's subscription state
-    *
-    *  It may also *not* reply because the remote origin can't communicate with
-    *  the service worker. This is okay, because the AMP web push extension
-    *  will never start up and it's less risky to not prompt someone if we're
-    *  not sure they're unsubscribed.
-    */
-    const subscriptionStatePromise = new Promise<SubscriptionStateMessage>(resolve => {
+    return new Promise<AltOriginCheck>((resolve, reject) => {
+      let timeoutId = null;
+      let iframeLoaded = false;
+      const cleanup = () => {
+        delete this.pendingChecks_[url];
+        delete this.migratingUrls_[url];
+        if (timeoutId !== null) {
+          clearTimeout(timeoutId);
+        }
+        // The remote frame has nothing else to tell us
+        messenger.disconnect();
+        this.removeIframe(url);
+      };
+      this.pendingChecks_[url] = () => {
+        cleanup();
+        const error = new Error(`Checking ${url} was cancelled.`);
+        (error as any).code = 'cancelled';
+        reject(error);
+      };
+      if (timeout > 0) {
+        timeoutId = setTimeout(() => {
+          cleanup();
+          const error = new Error(iframeLoaded ?
+            `${url} didn't report its subscription state within ${timeout} ms.` :
+            `${url} didn't load within ${timeout} ms.`);
+          (error as any).code = iframeLoaded ? 'timeout' : 'iframe-load-failed';
+          reject(error);
+        }, timeout);
+      }
+
+      /*
+       * The remote frame should automatically respond to our messenger to tell
+       * us the remote origin's subscription state
+       *
+       *  It may also *not* reply because the remote origin can't communicate
+       *  with the service worker. The timeout and the no-answer policy decide
+       *  what that means.
+       */
       messenger.on(
           WindowMessenger.Topics.ORIGIN_SUBSCRIPTION_STATE,
-          message => {
-            resolve(message)
+          (subscriptionState: SubscriptionStateMessage) => {
+            // The origin answered; a migration has its own timeout
+            if (timeoutId !== null) {
+              clearTimeout(timeoutId);
+              timeoutId = null;
+            }
+            const verdict = detectSubscription(subscriptionState,
+                this.checkOptions_.detectionRules, this.vendorAdapter_);
+            if (!verdict.subscribed ||
+                !this.checkOptions_.migrateSubscriptions) {
+              cleanup();
+              resolve({state: subscriptionState, verdict, migration: null});
+              return;
+            }
+            this.migratingUrls_[url] = true;
+            this.migrateAltOrigin_(messenger, url).then(migration => {
+              cleanup();
+              resolve({state: subscriptionState, verdict, migration});
+            }, error => {
+              log(`Could not migrate the subscription on ${url}:`,
+                  error.message);
+              cleanup();
+              resolve({state: subscriptionState, verdict, migration: null});
+            });
           }
       );
+      // The remote frame won't report until we prove we hold the channel
+      messenger.on(
+          WindowMessenger.Topics.PARENT_CHALLENGE,
+          (challenge, replyToChallenge) => {
+            replyToChallenge({nonce: challenge.nonce, origin: location.origin});
+          }
+      );
+      messenger.listen([new URL(url).origin]).catch(error => {
+        cleanup();
+        reject(error);
+      });
+
+      // Load the remote URL into the iframe
+      this.createIframe(url).then(() => {
+        iframeLoaded = true;
+        if (onIframeLoad) {
+          onIframeLoad();
+        }
+      }, () => {
+        cleanup();
+        const error = new Error(`${url} failed to load.`);
+        (error as any).code = 'iframe-load-failed';
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Asks a connected remote frame to unsubscribe its origin's subscription,
+   * and resolves with the identifiers it reports.
+   */
+  private migrateAltOrigin_(messenger: WindowMessenger, url: string): Promise<OriginMigrationResult> {
+    if (!messenger.peerSupportsTopic(WindowMessenger.Topics.ORIGIN_MIGRATE)) {
+      return Promise.reject(new Error(`The remote frame at ${url} doesn't ` +
+        'support migrating subscriptions.'));
+    }
+    return messenger.send(WindowMessenger.Topics.ORIGIN_MIGRATE, null, {
+      timeout: this.getOption_('migrationTimeout', DEFAULT_MIGRATION_TIMEOUT),
+    }).then(([reply]) => {
+      if (!reply.success) {
+        throw new Error(reply.error && reply.error.message ||
+          'The remote frame could not unsubscribe.');
+      }
+      return reply.result;
     });
-    messenger.listen([new URL(url).origin]);
-
-    // Load the remote URL into the iframe
-    const iframe = await this.createIframe(url);
-
-    /*
-     * The remote frame should automatically respond to our messenger to tell us
-     * the remote origin's subscription state
-     *
-     *  It may also *not* reply because the remote origin can't communicate with
-     *  the service worker. This is okay, because the AMP web push extension
-     *  will never start up and it's less risky to not prompt someone if we're
-     *  not sure they're unsubscribed.
-     */
-    const subscriptionState: SubscriptionStateMessage = await subscriptionStatePromise;
-    this.removeIframe(url);
-    return subscriptionState.notificationPermission === "granted" &&
-      subscriptionState.serviceWorkerIsControllingFrame === true &&
-      subscriptionState.serviceWorkerState === "activated" &&
-      subscriptionState.serviceWorkerSubscriptionState === true &&
-      subscriptionState.serviceWorkerUrl.indexOf('OneSignalSDKWorker.js') !== -1;
   }
 
   /**
    * Creates an IFrame and returns a promise when the iframe's document has
    * finished loading, with the IFrame DOM element as the promise's resolved
-   * value.
+   * value. The promise rejects if the iframe fires an error event, which
+   * browsers only do for some failures; others look like a load.
    */
   createIframe(url: string): Promise<HTMLIFrameElement> {
     const iframe = document.createElement('iframe');
     iframe.style.display = "none";
     iframe.src = url;
-    const loadPromise = new Promise<HTMLIFrameElement>(resolve => {
+    const loadPromise = new Promise<HTMLIFrameElement>((resolve, reject) => {
       iframe.onload = () => resolve(iframe);
+      iframe.onerror = () => reject(new Error(`${url} failed to load.`));
     });
     document.body.appendChild(iframe);
     return loadPromise;
@@ -419,98 +1502,3 @@ function log(...args_: any[]) {
     console.log.apply(window.console, args);
   }
 }
-
-async function run(urlsToCheck: string[]) {
-  if (!Array.isArray(urlsToCheck)) {
-    log("Parameter urlsToCheck is not an array:", urlsToCheck);
-  }
-  /*
-    We're going to deviate from the way AMP web push's helper frame accepts
-    connections from the parent AMP page, by accepting the initial connection
-    from the parent AMP page, but then delaying the final OK response until
-    we're done checking for existing subscriptions.
-
-    This will cause the parent AMP page to not finish initializing the web push
-    extension, and the visitor won't see any subscription (or unsubscription)
-    button, because AMP web push won't show anything until it's had a chance to
-    finish initializing.
-
-    How the process works is:
-
-    1. The parent AMP page opens an iframe to the helper frame URL. This current
-         script right now is running as part of the helper frame.
-
-    2. The parent AMP page, having opened this current iframe, will wait for
-       this iframe's onload event. IFrame load events don't get called until all
-       synchronous JavaScript finishes running, and all sub-resources on this
-       page have been loaded.
-
-       Ideally, we'd like to delay the onload event until we've:
-
-         a) opened iframes to every alternate subscription origin
-
-         b) confirmed each alternate subscription origin does not have an
-            existing subscription
-
-        However, there isn't any way in JavaScript to delay an onload event,
-        and the onload event is called as soon as all *synchronous* JavaScript
-        is finished running. That means promises are not waited on.
-
-    3. As soon as the parent AMP page detects this iframe's load event has been
-       called, it will send a connection message to this frame, which is handled
-       by WindowMessenger.
-
-       The problem is, if we asynchronously load and check each alternate origin
-       for an existing subscription and then after everything is determined to
-       be okay, wait for the original connection message from the parent AMP
-       page, we'll be too late.
-
-       So the solution is to *partially* accept the parent AMP page's connection
-       message, but delay the final handshake sequence until we've finished
-       checking for all extra subscriptions.
-
-       To do this, we have to modify WindowMessenger from it's original AMP web
-       push implementation, and add an extra parameter to the connect() call
-       that delays the final handshake response. We expose a public method on
-       WindowMessenger and HelperFrame that then resumes the final handshake
-       response. The good thing is that we can indefinitely delay the response
-       since the parent AMP page will wait indefinitely for the response.
-   */
-
-  log('Listening for parent AMP page connection message...');
-  const helperFrame = new AmpWebPushHelperFrame({
-    debug: true,
-    windowContext: window
-  });
-  (window as any)._helperFrame = helperFrame;
-  helperFrame.listenPartially(null);
-
-  /*
-    Load a specially prepared page on each origin below to check that origin's
-    notification permission, service worker state, and push subscription state.
-
-    The special page will be opened as a sub-iframe of this current iframe, and
-    will reply back with that origin's subscription state.
-
-    If any of the origins below have an existing subscription, we "freeze" the
-    iframe and never respond to the parent AMP page so that the visitor doesn't
-    have a chance to subscribe or unsubscribe.
-   */
-  log('Checking alternate origins for existing subscriptions...');
-  const subscriptionChecker = new AlternateSubscriptionChecker(urlsToCheck);
-  (window as any)._subscriptionChecker = subscriptionChecker;
-  await subscriptionChecker.run();
-
-  /*
-    At this point, we've finished loading, checking, and unloading each of the
-    URLs above to check for existing subscriptions. None exist.
-
-    We then resume the final handshake sequence from the parent AMP page and
-    restore the original AMP helper frame functionality so that the visitor can
-    subscribe/unsubscribe.
-   */
-  log('No existing subscriptions were found on alternate origins. Restoring original AMP web push helper frame functionality.');
-  helperFrame.finishListenHandshake();
-}
-
-(window as any).runAmpWebPushHelperFrame = run;
@@ -0,0 +1,413 @@
+import {
+  AlternateCheckOptions,
+  AlternateCheckResult,
+  AlternateSubscriptionChecker,
+  AmpWebPushHelperFrame,
+} from './amp-web-push-helper-frame';
+import {getPushVendorAdapter} from './push-vendor-adapters';
+
+/**
+ * @fileoverview
+ * Starts the helper frame from a single options object, and reports how
+ * starting it went through a HelperFrameController.
+ *
+ *   const controller = bootstrapHelperFrame({
+ *     alternateOriginUrls: ['https://subdomain.os.tc/amp-remote-frame.html'],
+ *   });
+ *   controller.onBlocked(result => ...);
+ *
+ * amp-helper-frame-entry.ts calls it with the page's declarative
+ * configuration.
+ */
+
+/**
+ * How the helper frame is deployed:
+ *   - 'https': on the site's own HTTPS origin. The AMP page's connection is
+ *     accepted right away.
+ *   - 'http': on a push vendor's origin standing in for an HTTP site. The
+ *     connection is held back until alternate origins are checked.
+ */
+export type HelperFrameMode = 'http' | 'https';
+
+/**
+ * Takes every AlternateCheckOptions option, like perOriginTimeout or
+ * detectionRules, which only apply in HTTP mode.
+ */
+export interface HelperFrameBootstrapOptions extends AlternateCheckOptions {
+  /**
+   * Defaults to 'http'.
+   */
+  mode?: HelperFrameMode,
+  /**
+   * Origin rules for the AMP pages allowed to connect; see allowed-origins.ts.
+   * Defaults to the parentOrigin and allowedOrigins helper frame URL query
+   * parameters.
+   */
+  allowedOrigins?: Array<string>,
+  /**
+   * In HTTP mode, the remote frame URLs of the alternate origins to check.
+   */
+  alternateOriginUrls?: Array<string>,
+  /**
+   * The name of the push vendor adapter, like 'onesignal' or 'vapid', for
+   * configurations that can't pass a vendorAdapter object. Ignored if
+   * vendorAdapter is set.
+   */
+  vendor?: string,
+  /**
+   * Enables verbose logging for the helper frame's messengers.
+   */
+  debug?: boolean,
+  /**
+   * See HelperFrameOptions.workerQueryTimeout.
+   */
+  workerQueryTimeout?: number,
+  /**
+   * See HelperFrameOptions.workerWaitTimeout.
+   */
+  workerWaitTimeout?: number,
+  /**
+   * See HelperFrameOptions.minProtocolVersion.
+   */
+  minProtocolVersion?: number,
+}
+
+/**
+ *   - 'starting': listening for the AMP page, and in HTTP mode, checking the
+ *     alternate origins
+ *   - 'ready': the AMP page has connected, and AMP web push is served to it
+ *   - 'blocked': an alternate origin keeps AMP web push disabled
+ *   - 'failed': the helper frame could not start
+ *   - 'disposed': dispose() was called
+ */
+export type HelperFrameState =
+  'starting' | 'ready' | 'blocked' | 'failed' | 'disposed';
+
+export class HelperFrameController {
+  private options_: HelperFrameBootstrapOptions;
+  private state_: HelperFrameState;
+  private helperFrame_: AmpWebPushHelperFrame|null;
+  private checker_: AlternateSubscriptionChecker|null;
+  private checkResult_: AlternateCheckResult|null;
+  private readyListeners_: Array<(result: AlternateCheckResult|null) => void>;
+  private blockedListeners_: Array<(result: AlternateCheckResult) => void>;
+  private errorListeners_: Array<(error: Error) => void>;
+
+  /**
+   * Starts the helper frame on the next microtask, so listeners subscribed
+   * right after construction hear every event. Use bootstrapHelperFrame().
+   */
+  constructor(options: HelperFrameBootstrapOptions) {
+    this.options_ = options || {};
+    this.state_ = 'starting';
+    this.helperFrame_ = null;
+    this.checker_ = null;
+    this.checkResult_ = null;
+    this.readyListeners_ = [];
+    this.blockedListeners_ = [];
+    this.errorListeners_ = [];
+    Promise.resolve()
+      .then(() => this.start_())
+      .catch(error => this.fail_(error));
+  }
+
+  getState(): HelperFrameState {
+    return this.state_;
+  }
+
+  /**
+   * Returns the result of the alternate origin check, or null in HTTPS mode
+   * and until the check is done.
+   */
+  getCheckResult(): AlternateCheckResult|null {
+    return this.checkResult_;
+  }
+
+  /**
+   * Subscribes a callback to be fired once AMP web push is served to the AMP
+   * page, with the alternate origin check's result in HTTP mode and null in
+   * HTTPS mode. Fired right away if that already happened. Returns a function
+   * that unsubscribes the callback.
+   */
+  onReady(callback: (result: AlternateCheckResult|null) => void): () => void {
+    if (this.state_ === 'ready') {
+      Promise.resolve().then(() => callback(this.checkResult_));
+    }
+    return subscribe(this.readyListeners_, callback);
+  }
+
+  /**
+   * Subscribes a callback to be fired once an alternate origin keeps AMP web
+   * push disabled, with the check's result. Fired right away if that already
+   * happened. Returns a function that unsubscribes the callback.
+   */
+  onBlocked(callback: (result: AlternateCheckResult) => void): () => void {
+    if (this.state_ === 'blocked') {
+      Promise.resolve().then(() => callback(this.checkResult_));
+    }
+    return subscribe(this.blockedListeners_, callback);
+  }
+
+  /**
+   * Subscribes a callback to be fired when the helper frame fails to start, or
+   * stops listening for the AMP page because of an error. Returns a function
+   * that unsubscribes the callback.
+   */
+  onError(callback: (error: Error) => void): () => void {
+    return subscribe(this.errorListeners_, callback);
+  }
+
+  /**
+   * Stops the helper frame: cancels the alternate origin checks in progress,
+   * closes the connection to the AMP page, and stops firing events.
+   */
+  dispose() {
+    if (this.state_ === 'disposed') {
+      return;
+    }
+    this.state_ = 'disposed';
+    if (this.checker_) {
+      this.checker_.dispose();
+    }
+    if (this.helperFrame_) {
+      this.helperFrame_.dispose();
+    }
+    this.readyListeners_ = [];
+    this.blockedListeners_ = [];
+    this.errorListeners_ = [];
+  }
+
+  private start_(): Promise<void>|void {
+    if (this.state_ === 'disposed') {
+      return;
+    }
+    const options = this.options_;
+    const mode = options.mode || 'http';
+    if (mode !== 'http' && mode !== 'https') {
+      throw new Error(`Unknown helper frame mode '${mode}'. Expected http or ` +
+        'https.');
+    }
+    const vendorAdapter = options.vendorAdapter ||
+      getPushVendorAdapter(options.vendor);
+    const allowedOrigins = options.allowedOrigins &&
+      options.allowedOrigins.length > 0 ?
+        options.allowedOrigins :
+        null;
+
+    log('Listening for parent AMP page connection message...');
+    this.helperFrame_ = new AmpWebPushHelperFrame({
+      debug: !!options.debug,
+      windowContext: window,
+      workerQueryTimeout: options.workerQueryTimeout,
+      workerWaitTimeout: options.workerWaitTimeout,
+      minProtocolVersion: options.minProtocolVersion,
+      vendorAdapter,
+    });
+
+    if (mode === 'https') {
+      return this.helperFrame_.listen(allowedOrigins).then(() => {
+        if (this.state_ === 'starting') {
+          this.becomeReady_(null);
+        }
+      });
+    }
+
+    // The checker is created first, so malformed detection rules fail before
+    // the AMP page can connect
+    const checkOptions: AlternateCheckOptions = {};
+    Object.keys(options).forEach(name => {
+      checkOptions[name] = options[name];
+    });
+    checkOptions.vendorAdapter = vendorAdapter;
+    this.checker_ = new AlternateSubscriptionChecker(
+        options.alternateOriginUrls || [], checkOptions);
+
+    /*
+      We're going to deviate from the way AMP web push's helper frame accepts
+      connections from the parent AMP page, by accepting the initial connection
+      from the parent AMP page, but then delaying the final OK response until
+      we're done checking for existing subscriptions.
+
+      This will cause the parent AMP page to not finish initializing the web push
+      extension, and the visitor won't see any subscription (or unsubscription)
+      button, because AMP web push won't show anything until it's had a chance to
+      finish initializing.
+
+      How the process works is:
+
+      1. The parent AMP page opens an iframe to the helper frame URL. This current
+           script right now is running as part of the helper frame.
+
+      2. The parent AMP page, having opened this current iframe, will wait for
+         this iframe's onload event. IFrame load events don't get called until all
+         synchronous JavaScript finishes running, and all sub-resources on this
+         page have been loaded.
+
+         Ideally, we'd like to delay the onload event until we've:
+
+           a) opened iframes to every alternate subscription origin
+
+           b) confirmed each alternate subscription origin does not have an
+              existing subscription
+
+          However, there isn't any way in JavaScript to delay an onload event,
+          and the onload event is called as soon as all *synchronous* JavaScript
+          is finished running. That means promises are not waited on.
+
+      3. As soon as the parent AMP page detects this iframe's load event has been
+         called, it will send a connection message to this frame, which is handled
+         by WindowMessenger.
+
+         The problem is, if we asynchronously load and check each alternate origin
+         for an existing subscription and then after everything is determined to
+         be okay, wait for the original connection message from the parent AMP
+         page, we'll be too late.
+
+         So the solution is to *partially* accept the parent AMP page's connection
+         message, but delay the final handshake sequence until we've finished
+         checking for all extra subscriptions.
+
+         To do this, we have to modify WindowMessenger from it's original AMP web
+         push implementation, and add an extra parameter to the connect() call
+         that delays the final handshake response. We expose a public method on
+         WindowMessenger and HelperFrame that then resumes the final handshake
+         response. The good thing is that we can indefinitely delay the response
+         since the parent AMP page will wait indefinitely for the response.
+     */
+    const listenPromise = this.helperFrame_.listenPartially(allowedOrigins);
+
+    /*
+      Load a specially prepared page on each origin below to check that origin's
+      notification permission, service worker state, and push subscription state.
+
+      The special page will be opened as a sub-iframe of this current iframe, and
+      will reply back with that origin's subscription state. All origins are
+      checked at once; origins that don't answer in time are handled by the
+      no-answer policy in the options.
+
+      If any of the origins below have an existing subscription, we still finish
+      the handshake so the AMP page can read why with the diagnostics topic, but
+      refuse every other topic so that the visitor doesn't have a chance to
+      subscribe or unsubscribe. In migration mode
+      (options.migrateSubscriptions), the existing subscription is
+      unsubscribed on its origin instead, so the visitor can resubscribe here.
+     */
+    log('Checking alternate origins for existing subscriptions...');
+    this.helperFrame_.setAlternateSubscriptionChecker(this.checker_);
+    const checkPromise = this.checker_.check().then(result => {
+      this.helperFrame_.setAlternateCheckResult(result);
+      return result;
+    });
+
+    // The check can finish before the AMP page connects, like when every
+    // verdict is cached, and the handshake can only be finished once it has
+    return Promise.all([listenPromise, checkPromise]).then(([, result]) => {
+      if (this.state_ !== 'starting') {
+        return;
+      }
+
+      /*
+        At this point, we've finished loading, checking, and unloading each of the
+        URLs above to check for existing subscriptions, and the parent AMP page
+        has partially connected.
+
+        We then resume the final handshake sequence from the parent AMP page. If
+        none exist, the original AMP helper frame functionality is restored so that
+        the visitor can subscribe/unsubscribe.
+       */
+      this.helperFrame_.finishListenHandshake();
+      if (result.blocked) {
+        log(`${result.blockingOrigin} blocks AMP web push ` +
+          `(${result.reason}). Only the diagnostics topic will be answered.`);
+        this.becomeBlocked_(result);
+      } else {
+        log('No existing subscriptions were found on alternate origins. ' +
+          'Restoring original AMP web push helper frame functionality.');
+        this.becomeReady_(result);
+      }
+    });
+  }
+
+  private becomeReady_(result: AlternateCheckResult|null) {
+    this.state_ = 'ready';
+    this.checkResult_ = result;
+    notify(this.readyListeners_, result);
+  }
+
+  private becomeBlocked_(result: AlternateCheckResult) {
+    this.state_ = 'blocked';
+    this.checkResult_ = result;
+    notify(this.blockedListeners_, result);
+  }
+
+  private fail_(error: Error) {
+    if (this.state_ === 'disposed') {
+      return;
+    }
+    log('The helper frame failed:', error);
+    if (this.state_ === 'starting') {
+      this.state_ = 'failed';
+    }
+    notify(this.errorListeners_, error);
+  }
+}
+
+/**
+ * The window's helper frame, started by the last bootstrapHelperFrame() call.
+ */
+let currentController: HelperFrameController|null = null;
+
+/**
+ * Starts the helper frame. Invalid options, like an unknown mode or malformed
+ * detection rules, are reported through the controller's error event.
+ *
+ * A window runs one helper frame at a time, since each listens for the AMP
+ * page's connection: a helper frame started earlier is disposed of first.
+ */
+export function bootstrapHelperFrame(options: HelperFrameBootstrapOptions): HelperFrameController {
+  if (getHelperFrameController()) {
+    log('Replacing the helper frame started earlier.');
+    currentController.dispose();
+  }
+  currentController = new HelperFrameController(options);
+  return currentController;
+}
+
+/**
+ * Returns the helper frame bootstrapHelperFrame() started, or null if it
+ * hasn't been called or the helper frame was disposed of.
+ */
+export function getHelperFrameController(): HelperFrameController|null {
+  return currentController && currentController.getState() !== 'disposed' ?
+    currentController :
+    null;
+}
+
+function subscribe<T>(listeners: Array<T>, callback: T): () => void {
+  listeners.push(callback);
+  return () => {
+    const index = listeners.indexOf(callback);
+    if (index !== -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+function notify<T>(listeners: Array<(value: T) => void>, value: T) {
+  const callbacks = listeners.slice();
+  for (let i = 0; i < callbacks.length; i++) {
+    try {
+      callbacks[i](value);
+    } catch (e) {
+      log('A helper frame event listener threw:', e);
+    }
+  }
+}
+
+function log(...args_: any[]) {
+  if (typeof (window as any)._LOG !== "undefined") {
+    const args = Array.prototype.slice.call(arguments);
+    args.unshift(`[Helper Frame: ${location.origin}]`);
+    console.log.apply(window.console, args);
+  }
+}
@@ -0,0 +1,457 @@
+import {compileOriginRules} from './allowed-origins';
+import {HelperFrameBootstrapOptions} from './helper-frame-bootstrap';
+import {getPushVendorAdapter} from './push-vendor-adapters';
+import {validateDetectionRules} from './subscription-detection';
+import {parseQueryStringValues, QueryStringDecodeError} from './utils';
+
+/**
+ * @fileoverview
+ * Reads HelperFrameBootstrapOptions from the helper frame URL, and checks the
+ * helper frame page's own JSON configuration against the same schema.
+ *
+ * Settings go in the query string:
+ *
+ *   amp-helper-frame.html?parentOrigin=https://example.com
+ *     &allowedOrigins=https://*.cdn.ampproject.org
+ *     &debug=true&perOriginTimeout=5000
+ *
+ * Repeated keys make arrays, and allowedOrigins also takes comma-separated
+ * rules. Booleans are true, false, 1, 0, or a key without a value for true.
+ *
+ * They can also go in the fragment as base64url encoded JSON holding any of
+ * the same keys:
+ *
+ *   amp-helper-frame.html?parentOrigin=https://example.com#config=eyJ...
+ *
+ * The query string wins for keys set in both. Every value is checked against
+ * CONFIG_SCHEMA, and the first problem throws a HelperFrameConfigError naming
+ * the key. Query string keys and fragment parameters the schema doesn't know,
+ * like cache busters, are left for the page and reported as ignored; unknown
+ * keys in the fragment's JSON are errors.
+ *
+ * Whoever embeds the helper frame chooses its URL, so options that would
+ * weaken the alternate origin check, like mode or noAnswerPolicy, or change
+ * the visitor's subscriptions, like migrateSubscriptions, are refused from it:
+ * they can only be set by the publisher's own page.
+ */
+
+export type HelperFrameConfigErrorCode =
+  'unknown-key' |
+  'forbidden-key' |
+  'repeated-key' |
+  'missing-key' |
+  'invalid-value' |
+  'invalid-origin' |
+  'invalid-url' |
+  'invalid-fragment';
+
+export class HelperFrameConfigError extends Error {
+  public code: HelperFrameConfigErrorCode;
+  /**
+   * The configuration key at fault, or null if the problem isn't with one key.
+   */
+  public key: string|null;
+
+  constructor(code: HelperFrameConfigErrorCode, key: string|null, message: string) {
+    super(message);
+    // Restores the prototype chain broken by extending Error in ES5
+    (Object as any).setPrototypeOf(this, HelperFrameConfigError.prototype);
+    this.name = 'HelperFrameConfigError';
+    this.code = code;
+    this.key = key;
+  }
+}
+
+type ConfigFieldType =
+  'string' | 'boolean' | 'number' | 'origin' | 'origin-rule' | 'url' | 'object';
+
+interface ConfigField {
+  type: ConfigFieldType,
+  /**
+   * Takes several values. In the query string, they come from repeating the
+   * key.
+   */
+  array?: boolean,
+  /**
+   * The only values accepted.
+   */
+  values?: Array<string>,
+  /**
+   * Refused from the URL, since any embedder could set it. The default still
+   * applies.
+   */
+  pageOnly?: boolean,
+  /**
+   * Used when neither the query string nor the fragment sets the key.
+   */
+  defaultValue?: any,
+  /**
+   * Further checks on the parsed value. Throws with the reason it's invalid.
+   */
+  validate?: (value: any) => void,
+}
+
+const CONFIG_SCHEMA: {[key: string]: ConfigField} = {
+  /**
+   * Set by AMP to the AMP page's origin. Added to allowedOrigins.
+   */
+  parentOrigin: {type: 'origin'},
+  allowedOrigins: {type: 'origin-rule', array: true, defaultValue: []},
+  mode: {
+    type: 'string',
+    values: ['http', 'https'],
+    pageOnly: true,
+    defaultValue: 'http',
+  },
+  alternateOriginUrls: {
+    type: 'url',
+    array: true,
+    pageOnly: true,
+    defaultValue: [],
+  },
+  vendor: {
+    type: 'string',
+    pageOnly: true,
+    validate: vendor => getPushVendorAdapter(vendor),
+  },
+  debug: {type: 'boolean', defaultValue: false},
+  workerQueryTimeout: {type: 'number'},
+  workerWaitTimeout: {type: 'number'},
+  minProtocolVersion: {type: 'number', pageOnly: true},
+  perOriginTimeout: {type: 'number'},
+  overallDeadline: {type: 'number'},
+  noAnswerPolicy: {
+    type: 'string',
+    values: ['block', 'allow', 'allow-after-timeouts'],
+    pageOnly: true,
+  },
+  allowAfterTimeouts: {type: 'number', pageOnly: true},
+  detectionRules: {
+    type: 'object',
+    pageOnly: true,
+    validate: validateDetectionRules,
+  },
+  positiveVerdictTtl: {type: 'number'},
+  negativeVerdictTtl: {type: 'number', pageOnly: true},
+  migrateSubscriptions: {type: 'boolean', pageOnly: true, defaultValue: false},
+  migrationTimeout: {type: 'number'},
+};
+
+/**
+ * The fragment key holding the base64url encoded JSON settings.
+ */
+const FRAGMENT_CONFIG_KEY = 'config';
+
+export interface ParsedHelperFrameConfig {
+  /**
+   * Every key the URL set, with defaults for the rest. parentOrigin is folded
+   * into allowedOrigins.
+   */
+  options: HelperFrameBootstrapOptions,
+  /**
+   * The keys the URL set, to tell them apart from defaults.
+   */
+  keys: Array<string>,
+  /**
+   * The query string keys and fragment parameters that aren't configuration.
+   */
+  ignoredKeys: Array<string>,
+}
+
+/**
+ * Parses and validates the helper frame URL's query string and fragment, like
+ * location.search and location.hash. Throws a HelperFrameConfigError on the
+ * first invalid key or value.
+ */
+export function parseHelperFrameConfig(search: string, hash: string): ParsedHelperFrameConfig {
+  const values: {[key: string]: any} = {};
+  const ignoredKeys: Array<string> = [];
+  const fragmentValues = parseFragment(hash, ignoredKeys);
+  Object.keys(fragmentValues).forEach(key => {
+    const field = getField(key, false);
+    values[key] = checkValue(key, field,
+        readJsonValue(key, field, fragmentValues[key]));
+  });
+  const queryValues = parseParams(search);
+  Object.keys(queryValues).forEach(key => {
+    if (!isConfigKey(key)) {
+      ignoredKeys.push(key);
+      return;
+    }
+    const field = getField(key, false);
+    values[key] = checkValue(key, field,
+        readQueryValue(key, field, queryValues[key]));
+  });
+
+  const keys = Object.keys(values);
+  const options: {[key: string]: any} = {};
+  Object.keys(CONFIG_SCHEMA).forEach(key => {
+    if (key in values) {
+      options[key] = values[key];
+    } else if (CONFIG_SCHEMA[key].defaultValue !== undefined) {
+      options[key] = copyDefault(CONFIG_SCHEMA[key].defaultValue);
+    }
+  });
+  foldParentOrigin(options);
+  return {options, keys, ignoredKeys};
+}
+
+/**
+ * Checks the helper frame page's JSON configuration against the same schema
+ * as the URL, and returns it with parentOrigin folded into allowedOrigins.
+ * Unlike the URL, it can set every key, and gets no defaults. Throws a
+ * HelperFrameConfigError on the first invalid key or value.
+ */
+export function checkPageConfig(settings: {[key: string]: any}): HelperFrameBootstrapOptions {
+  const options: {[key: string]: any} = {};
+  Object.keys(settings).forEach(key => {
+    const field = getField(key, true);
+    options[key] = checkValue(key, field,
+        readJsonValue(key, field, settings[key]));
+  });
+  foldParentOrigin(options);
+  return options;
+}
+
+function foldParentOrigin(options: {[key: string]: any}) {
+  if (options['parentOrigin']) {
+    options['allowedOrigins'] =
+      [options['parentOrigin']].concat(options['allowedOrigins'] || []);
+  }
+  delete options['parentOrigin'];
+}
+
+function isConfigKey(key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(CONFIG_SCHEMA, key);
+}
+
+/**
+ * Returns the key's field, or throws if it's unknown or, unless it's set by
+ * the page, only the page may set it.
+ */
+function getField(key: string, fromPage: boolean): ConfigField {
+  if (!isConfigKey(key)) {
+    throw new HelperFrameConfigError('unknown-key', key,
+      `Unknown key '${key}'. Expected one of ` +
+      `${Object.keys(CONFIG_SCHEMA).join(', ')}.`);
+  }
+  if (CONFIG_SCHEMA[key].pageOnly && !fromPage) {
+    throw new HelperFrameConfigError('forbidden-key', key,
+      `${key} can't be set in the helper frame URL, only by the helper frame ` +
+      'page.');
+  }
+  return CONFIG_SCHEMA[key];
+}
+
+/**
+ * Returns a query string or fragment's values by key, reporting a malformed
+ * percent-escape as an invalid value for its key.
+ */
+function parseParams(params: string): {[key: string]: Array<string>} {
+  try {
+    return parseQueryStringValues(params);
+  } catch (e) {
+    if (e instanceof QueryStringDecodeError) {
+      throw new HelperFrameConfigError('invalid-value', e.key, e.message);
+    }
+    throw e;
+  }
+}
+
+/**
+ * Returns the settings in the fragment's base64url encoded JSON, or none if the
+ * fragment doesn't set it. Adds the fragment's other parameters to ignoredKeys.
+ */
+function parseFragment(hash: string, ignoredKeys: Array<string>): {[key: string]: any} {
+  const fragmentParams = parseParams(hash);
+  Object.keys(fragmentParams).forEach(key => {
+    if (key !== FRAGMENT_CONFIG_KEY) {
+      ignoredKeys.push(key);
+    }
+  });
+  if (!(FRAGMENT_CONFIG_KEY in fragmentParams)) {
+    return {};
+  }
+  const encoded = fragmentParams[FRAGMENT_CONFIG_KEY];
+  if (encoded.length !== 1) {
+    throw new HelperFrameConfigError('repeated-key', FRAGMENT_CONFIG_KEY,
+      `The fragment sets ${FRAGMENT_CONFIG_KEY} ${encoded.length} times.`);
+  }
+  let settings;
+  try {
+    settings = JSON.parse(decodeBase64Url(encoded[0]));
+  } catch (e) {
+    throw new HelperFrameConfigError('invalid-fragment', FRAGMENT_CONFIG_KEY,
+      `The fragment's ${FRAGMENT_CONFIG_KEY} isn't base64url encoded JSON: ` +
+      `${e.message}`);
+  }
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    throw new HelperFrameConfigError('invalid-fragment', FRAGMENT_CONFIG_KEY,
+      `The fragment's ${FRAGMENT_CONFIG_KEY} should hold a JSON object.`);
+  }
+  return settings;
+}
+
+/**
+ * Decodes base64url, padded or not, into a string, reading the bytes as UTF-8.
+ */
+function decodeBase64Url(encoded: string): string {
+  const padding = (4 - encoded.length % 4) % 4;
+  let base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  for (let i = 0; i < padding; i++) {
+    base64 += '=';
+  }
+  const binary = atob(base64);
+  let percentEncoded = '';
+  for (let i = 0; i < binary.length; i++) {
+    percentEncoded += '%' + ('0' + binary.charCodeAt(i).toString(16)).slice(-2);
+  }
+  return decodeURIComponent(percentEncoded);
+}
+
+/**
+ * Converts a key's query string values to the field's type.
+ */
+function readQueryValue(key: string, field: ConfigField, values: Array<string>): any {
+  if (!field.array) {
+    if (values.length > 1) {
+      throw new HelperFrameConfigError('repeated-key', key,
+        `${key} is set ${values.length} times, but takes a single value.`);
+    }
+    return readQueryScalar(key, field, values[0]);
+  }
+  const items = [];
+  for (let i = 0; i < values.length; i++) {
+    // Rules can't contain commas, but URLs can
+    const parts = field.type === 'origin-rule' ?
+      values[i].split(',') :
+      [values[i]];
+    for (let j = 0; j < parts.length; j++) {
+      if (parts[j].trim()) {
+        items.push(readQueryScalar(key, field, parts[j].trim()));
+      }
+    }
+  }
+  return items;
+}
+
+function readQueryScalar(key: string, field: ConfigField, value: string): any {
+  if (field.type === 'boolean') {
+    if (value === '' || value === 'true' || value === '1') {
+      return true;
+    }
+    if (value === 'false' || value === '0') {
+      return false;
+    }
+    throw new HelperFrameConfigError('invalid-value', key,
+      `${key} should be true, false, 1 or 0. Got: ${value}`);
+  }
+  if (field.type === 'number') {
+    if (!/^\d+(\.\d+)?$/.test(value)) {
+      throw new HelperFrameConfigError('invalid-value', key,
+        `${key} should be a non-negative number. Got: ${value}`);
+    }
+    return Number(value);
+  }
+  return value;
+}
+
+/**
+ * Checks a key's fragment JSON value has the field's type.
+ */
+function readJsonValue(key: string, field: ConfigField, value: any): any {
+  if (!field.array) {
+    checkJsonType(key, field, value);
+    return value;
+  }
+  if (!Array.isArray(value)) {
+    throw new HelperFrameConfigError('invalid-value', key,
+      `${key} should be an array.`);
+  }
+  value.forEach(item => checkJsonType(key, field, item));
+  return value;
+}
+
+function checkJsonType(key: string, field: ConfigField, value: any) {
+  const expectedType = field.type === 'boolean' || field.type === 'number' ||
+    field.type === 'object' ?
+      field.type :
+      'string';
+  const valueType = value === null || Array.isArray(value) ?
+    'null or array' :
+    typeof value;
+  if (valueType !== expectedType) {
+    throw new HelperFrameConfigError('invalid-value', key,
+      `${key} should be a ${expectedType}. Got: ${JSON.stringify(value)}`);
+  }
+}
+
+/**
+ * Checks and normalizes a value already converted to the field's type.
+ */
+function checkValue(key: string, field: ConfigField, value: any): any {
+  if (field.array) {
+    return value.map(item => checkScalar(key, field, item));
+  }
+  return checkScalar(key, field, value);
+}
+
+function checkScalar(key: string, field: ConfigField, value: any): any {
+  if (field.values && field.values.indexOf(value) === -1) {
+    throw new HelperFrameConfigError('invalid-value', key,
+      `${key} should be one of ${field.values.join(', ')}. Got: ${value}`);
+  }
+  if (field.type === 'number' && !(value >= 0 && isFinite(value))) {
+    throw new HelperFrameConfigError('invalid-value', key,
+      `${key} should be a non-negative number. Got: ${value}`);
+  }
+  if (field.type === 'origin') {
+    value = checkOrigin(key, value);
+  } else if (field.type === 'origin-rule') {
+    try {
+      compileOriginRules([value]);
+    } catch (e) {
+      throw new HelperFrameConfigError('invalid-origin', key, e.message);
+    }
+  } else if (field.type === 'url') {
+    const url = parseUrl(value);
+    if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:')) {
+      throw new HelperFrameConfigError('invalid-url', key,
+        `${key} should only contain absolute http or https URLs. Got: ${value}`);
+    }
+  }
+  if (field.validate) {
+    try {
+      field.validate(value);
+    } catch (e) {
+      throw new HelperFrameConfigError('invalid-value', key,
+        `Invalid ${key}: ${e.message}`);
+    }
+  }
+  return value;
+}
+
+/**
+ * Returns the origin of an origin or URL, or throws if it isn't http or https.
+ */
+function checkOrigin(key: string, value: string): string {
+  const url = parseUrl(value);
+  if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:')) {
+    throw new HelperFrameConfigError('invalid-origin', key,
+      `${key} should be an http or https origin, like https://example.com. ` +
+      `Got: ${value}`);
+  }
+  return url.origin;
+}
+
+function parseUrl(value: string): URL|null {
+  try {
+    return new URL(value);
+  } catch (e) {
+    return null;
+  }
+}
+
+function copyDefault(value: any): any {
+  return Array.isArray(value) ? value.slice() : value;
+}
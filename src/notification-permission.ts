@@ -0,0 +1,88 @@
+import {NotificationPermission, normalizeNotificationPermission} from './vars';
+import {NotificationPermissionRequestResult} from './topics';
+
+/**
+ * @fileoverview
+ * Reads and requests the notification permission, reconciling the
+ * Notification API ('default') with the Permissions API ('prompt').
+ */
+
+/**
+ * A prompt resolving faster than this, in milliseconds, can't have been
+ * answered by a person: the browser decided without showing it.
+ */
+const QUIET_BLOCK_THRESHOLD = 250;
+
+/**
+ * Returns the notification permission. Where the Permissions API reports a
+ * denial the Notification API still reports as 'default', which some browsers
+ * do for quietly blocked prompts, the denial wins.
+ */
+export function queryNotificationPermission(windowContext: Window): Promise<NotificationPermission> {
+  const notificationPermission = normalizeNotificationPermission(
+      (windowContext as any).Notification.permission);
+  const permissions = (windowContext.navigator as any).permissions;
+  if (!permissions || typeof permissions.query !== 'function') {
+    return Promise.resolve(notificationPermission);
+  }
+  return Promise.resolve(permissions.query({name: 'notifications'}))
+    .then(status => {
+      const permissionsApiState = normalizeNotificationPermission(status.state);
+      return permissionsApiState === NotificationPermission.DENIED ?
+        permissionsApiState :
+        notificationPermission;
+    }, () => notificationPermission);
+}
+
+/**
+ * Calls Notification.requestPermission(), which takes a callback in older
+ * browsers and returns a Promise in newer ones.
+ */
+function callRequestPermission(windowContext: Window): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    try {
+      const maybePromise = (windowContext as any).Notification
+        .requestPermission(resolve);
+      if (maybePromise && typeof maybePromise.then === 'function') {
+        maybePromise.then(resolve, reject);
+      }
+    } catch (e) {
+      reject(e);
+    }
+  });
+}
+
+/**
+ * Prompts for the notification permission, unless it has already been granted
+ * or denied.
+ *
+ * Call it synchronously from the handler of the user's gesture: browsers
+ * requiring transient user activation ignore or deny prompts requested after
+ * it has expired. That's why the prior state is read from
+ * Notification.permission instead of waiting on the Permissions API first.
+ */
+export function requestNotificationPermission(windowContext: Window): Promise<NotificationPermissionRequestResult> {
+  const previousPermission = normalizeNotificationPermission(
+      (windowContext as any).Notification.permission);
+  if (previousPermission !== NotificationPermission.DEFAULT) {
+    return Promise.resolve({
+      permission: previousPermission,
+      previousPermission,
+      prompted: false,
+      quietlyBlocked: false,
+    });
+  }
+  const promptStartTime = Date.now();
+  return callRequestPermission(windowContext).then(() => {
+    const promptDuration = Date.now() - promptStartTime;
+    return queryNotificationPermission(windowContext).then(permission => ({
+      permission,
+      previousPermission,
+      prompted: true,
+      // Either the prompt was never shown, or it was answered faster than a
+      // person could
+      quietlyBlocked: permission !== NotificationPermission.GRANTED &&
+        promptDuration < QUIET_BLOCK_THRESHOLD,
+    }));
+  });
+}
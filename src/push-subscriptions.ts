@@ -0,0 +1,65 @@
+import {SerializedPushSubscription} from './topics';
+
+/**
+ * @fileoverview
+ * Helpers for the helper frame's push subscription topics: converting VAPID
+ * keys and serializing PushSubscriptions in a form that can be posted to the
+ * AMP page.
+ */
+
+/**
+ * Decodes a base64url string, like a VAPID application server public key, into
+ * the bytes PushManager.subscribe() expects.
+ */
+export function base64UrlToUint8Array(base64Url: string): Uint8Array {
+  const padding = new Array((4 - base64Url.length % 4) % 4 + 1).join('=');
+  const base64 = (base64Url + padding)
+    .replace(/-/g, '+')
+    .replace(/_/g, '/');
+  const rawData = atob(base64);
+  const bytes = new Uint8Array(rawData.length);
+  for (let i = 0; i < rawData.length; i++) {
+    bytes[i] = rawData.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encodes bytes, like a subscription's p256dh or auth key, as base64url.
+ */
+export function arrayBufferToBase64Url(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function getKey(subscription: PushSubscription, name: string): string|null {
+  const key = typeof subscription.getKey === 'function' ?
+    subscription.getKey(name as any) :
+    null;
+  return key ? arrayBufferToBase64Url(key) : null;
+}
+
+/**
+ * Serializes a PushSubscription, or returns null for no subscription.
+ */
+export function serializeSubscription(subscription: PushSubscription|null): SerializedPushSubscription|null {
+  if (!subscription) {
+    return null;
+  }
+  const expirationTime = (subscription as any).expirationTime;
+  return {
+    endpoint: subscription.endpoint,
+    expirationTime: typeof expirationTime === 'number' ? expirationTime : null,
+    keys: {
+      p256dh: getKey(subscription, 'p256dh'),
+      auth: getKey(subscription, 'auth'),
+    },
+  };
+}
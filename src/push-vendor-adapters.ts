@@ -0,0 +1,194 @@
+import {base64UrlToUint8Array, serializeSubscription} from './push-subscriptions';
+import {PushUnsubscribeResult, SerializedPushSubscription} from './topics';
+
+/**
+ * @fileoverview
+ * What differs between push vendors: which worker scripts are theirs, how to
+ * ask their worker whether the visitor is subscribed, how to subscribe and
+ * unsubscribe, and what identifies a subscriber to their backend.
+ *
+ * The helper frame, the alternate origin checker and the remote frame only go
+ * through a PushVendorAdapter for these. OneSignal's is the default.
+ */
+
+/**
+ * What an adapter gets to work with on the frame's origin.
+ */
+export interface PushVendorContext {
+  /**
+   * The registration the operation applies to, or null if there is none.
+   */
+  registration: ServiceWorkerRegistration|null,
+  /**
+   * Sends the vendor's worker a command and resolves with its reply payload.
+   * Rejects if no worker is available or it doesn't answer in time.
+   */
+  queryWorker: (command: string, payload: any) => Promise<any>,
+}
+
+export interface PushVendorAdapter {
+  /**
+   * Identifies the adapter, for example in the remote frame's vendor URL query
+   * parameter.
+   */
+  name: string,
+  /**
+   * The vendor's worker script URLs. Strings match anywhere in the URL;
+   * regular expressions are tested against it.
+   */
+  workerUrlPatterns: Array<string|RegExp>,
+  /**
+   * Returns true if the worker script URL is one of the vendor's.
+   */
+  isVendorWorkerUrl(url: string): boolean,
+  /**
+   * Resolves with the vendor's view of whether the visitor is subscribed:
+   * true, false, or whatever the vendor's worker answered.
+   */
+  querySubscriptionState(context: PushVendorContext): Promise<any>,
+  subscribe(context: PushVendorContext, applicationServerKey: string): Promise<SerializedPushSubscription>,
+  unsubscribe(context: PushVendorContext): Promise<PushUnsubscribeResult>,
+  /**
+   * Resolves with what identifies the subscriber to the vendor's backend, or
+   * null if nothing does.
+   */
+  extractIdentifiers(context: PushVendorContext): Promise<any>,
+}
+
+/**
+ * Returns the first of the worker URL patterns the URL matches, as a string,
+ * or null if it matches none.
+ */
+export function matchWorkerUrl(url: string, patterns: Array<string|RegExp>): string|null {
+  if (typeof url !== 'string') {
+    return null;
+  }
+  for (let i = 0; i < patterns.length; i++) {
+    const pattern = patterns[i];
+    if (pattern instanceof RegExp ? pattern.test(url) : url.indexOf(pattern) !== -1) {
+      return String(pattern);
+    }
+  }
+  return null;
+}
+
+function getSubscription(context: PushVendorContext): Promise<PushSubscription|null> {
+  if (!context.registration || !context.registration.pushManager) {
+    return Promise.resolve(null);
+  }
+  return Promise.resolve(context.registration.pushManager.getSubscription())
+    .then(subscription => subscription || null);
+}
+
+/**
+ * For sites sending pushes themselves with VAPID: any worker is theirs, and
+ * everything is read from and done through PushManager, without asking the
+ * worker.
+ */
+export class VapidPushVendorAdapter implements PushVendorAdapter {
+  name: string;
+  workerUrlPatterns: Array<string|RegExp>;
+
+  constructor() {
+    this.name = 'vapid';
+    this.workerUrlPatterns = [/./];
+  }
+
+  isVendorWorkerUrl(url: string): boolean {
+    return matchWorkerUrl(url, this.workerUrlPatterns) !== null;
+  }
+
+  querySubscriptionState(context: PushVendorContext): Promise<any> {
+    return getSubscription(context).then(subscription => !!subscription);
+  }
+
+  subscribe(context: PushVendorContext, applicationServerKey: string): Promise<SerializedPushSubscription> {
+    if (!context.registration) {
+      return Promise.reject(new Error('There is no registration to ' +
+        'subscribe with.'));
+    }
+    return context.registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlToUint8Array(applicationServerKey),
+    } as any).then(serializeSubscription);
+  }
+
+  unsubscribe(context: PushVendorContext): Promise<PushUnsubscribeResult> {
+    return getSubscription(context).then(subscription => {
+      if (!subscription) {
+        return {unsubscribed: false, subscription: null};
+      }
+      const serializedSubscription = serializeSubscription(subscription);
+      return subscription.unsubscribe().then(unsubscribed => ({
+        unsubscribed,
+        subscription: serializedSubscription,
+      }));
+    });
+  }
+
+  extractIdentifiers(context: PushVendorContext): Promise<any> {
+    return getSubscription(context).then(subscription => {
+      const serialized = serializeSubscription(subscription);
+      return serialized ? {endpoint: serialized.endpoint} : null;
+    });
+  }
+}
+
+/**
+ * OneSignal: its workers answer the subscription state and identifier
+ * commands, and only its own worker scripts count.
+ */
+export class OneSignalPushVendorAdapter extends VapidPushVendorAdapter {
+  constructor() {
+    super();
+    this.name = 'onesignal';
+    this.workerUrlPatterns = [
+      'OneSignalSDKWorker.js',
+      'OneSignalSDKUpdaterWorker.js',
+    ];
+  }
+
+  querySubscriptionState(context: PushVendorContext): Promise<any> {
+    return context.queryWorker('amp-web-push-subscription-state', null);
+  }
+
+  /**
+   * Adds whatever the worker reports, like the OneSignal user ID, to the
+   * endpoint. The endpoint alone is still returned if the worker doesn't
+   * answer.
+   */
+  extractIdentifiers(context: PushVendorContext): Promise<any> {
+    return super.extractIdentifiers(context).then(identifiers => {
+      return context.queryWorker('amp-web-push-subscription-identifiers', null)
+        .then(workerIdentifiers => {
+          if (!identifiers && !workerIdentifiers) {
+            return null;
+          }
+          return {
+            endpoint: identifiers ? identifiers.endpoint : null,
+            worker: workerIdentifiers,
+          };
+        }, () => identifiers);
+    });
+  }
+}
+
+const ADAPTERS: {[name: string]: () => PushVendorAdapter} = {
+  'onesignal': () => new OneSignalPushVendorAdapter(),
+  'vapid': () => new VapidPushVendorAdapter(),
+};
+
+export const DEFAULT_PUSH_VENDOR = 'onesignal';
+
+/**
+ * Returns the adapter with the name, or the default adapter without one.
+ * Throws for unknown names.
+ */
+export function getPushVendorAdapter(name?: string): PushVendorAdapter {
+  const vendor = name || DEFAULT_PUSH_VENDOR;
+  if (!ADAPTERS[vendor]) {
+    throw new Error(`Unknown push vendor '${vendor}'. Expected one of ` +
+      `${Object.keys(ADAPTERS).join(', ')}.`);
+  }
+  return ADAPTERS[vendor]();
+}
@@ -0,0 +1,101 @@
+import {
+  ServiceWorkerDetails,
+  ServiceWorkerRegistrationDetails,
+} from './topics';
+
+/**
+ * @fileoverview
+ * Helpers for the helper frame's registration lifecycle topics: describing
+ * registrations in a form that can be posted to the AMP page, and finding
+ * registrations by scope or script.
+ */
+
+function describeWorker(worker: ServiceWorker|null): ServiceWorkerDetails|null {
+  return worker ? {scriptUrl: worker.scriptURL, state: worker.state} : null;
+}
+
+/**
+ * Describes a registration. scriptUrl and state are those of the newest worker
+ * (installing, then waiting, then active).
+ */
+export function describeRegistration(registration: ServiceWorkerRegistration): ServiceWorkerRegistrationDetails {
+  const newestWorker = registration.installing ||
+    registration.waiting ||
+    registration.active;
+  return {
+    scope: registration.scope,
+    scriptUrl: newestWorker ? newestWorker.scriptURL : null,
+    state: newestWorker ? newestWorker.state : null,
+    installing: describeWorker(registration.installing),
+    waiting: describeWorker(registration.waiting),
+    active: describeWorker(registration.active),
+  };
+}
+
+/**
+ * Resolves relative URLs and scopes against the helper frame's location.
+ */
+export function resolveUrl(url: string, baseUrl: string): string {
+  return new URL(url, baseUrl).href;
+}
+
+/**
+ * Returns every registration for the helper frame's origin.
+ */
+export function getRegistrations(serviceWorkerContainer: ServiceWorkerContainer): Promise<Array<ServiceWorkerRegistration>> {
+  return Promise.resolve(serviceWorkerContainer.getRegistrations())
+    .then(registrations => Array.prototype.slice.call(registrations || []));
+}
+
+/**
+ * Returns the registration with exactly the given scope, or null. Without a
+ * scope, returns the registration controlling the helper frame's page.
+ */
+export function findRegistrationByScope(
+  serviceWorkerContainer: ServiceWorkerContainer,
+  scope: string|undefined,
+  baseUrl: string): Promise<ServiceWorkerRegistration|null> {
+  if (!scope) {
+    return serviceWorkerContainer.getRegistration()
+      .then(registration => registration || null);
+  }
+  const resolvedScope = resolveUrl(scope, baseUrl);
+  return getRegistrations(serviceWorkerContainer).then(registrations => {
+    for (let i = 0; i < registrations.length; i++) {
+      if (registrations[i].scope === resolvedScope) {
+        return registrations[i];
+      }
+    }
+    return null;
+  });
+}
+
+/**
+ * Returns true if any of the registration's workers runs one of the scripts.
+ * Scripts are compared by origin and path, ignoring query strings, so
+ * OneSignalSDKWorker.js matches OneSignalSDKWorker.js?appId=....
+ */
+export function registrationRunsScript(
+  registration: ServiceWorkerRegistration,
+  scriptUrls: Array<string>,
+  baseUrl: string): boolean {
+  const workers = [
+    registration.installing,
+    registration.waiting,
+    registration.active,
+  ];
+  for (let i = 0; i < workers.length; i++) {
+    if (!workers[i]) {
+      continue;
+    }
+    const workerUrl = new URL(workers[i].scriptURL);
+    for (let j = 0; j < scriptUrls.length; j++) {
+      const scriptUrl = new URL(scriptUrls[j], baseUrl);
+      if (workerUrl.origin === scriptUrl.origin &&
+          workerUrl.pathname === scriptUrl.pathname) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
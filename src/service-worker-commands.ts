@@ -0,0 +1,229 @@
+import {compileOriginRules, isOriginAllowed, OriginRule} from './allowed-origins';
+import {describeRegistration} from './registrations';
+import {serializeSubscription} from './push-subscriptions';
+import {ServiceWorkerRegistrationDetails} from './topics';
+
+/**
+ * @fileoverview
+ * The service worker side of the command protocol the helper and remote frames
+ * speak through ServiceWorkerQueries: each frame posts {command, payload,
+ * requestId} to the worker, and expects {command, payload, requestId} back.
+ *
+ * ServiceWorkerCommands only depends on what it's given, not on the worker's
+ * globals, so it can be exercised without a browser by passing plain objects
+ * for the registration and the message source.
+ */
+
+/**
+ * The commands answered out of the box.
+ */
+export const WorkerCommands = {
+  /**
+   * Replies true if the worker's registration has a push subscription.
+   */
+  SUBSCRIPTION_STATE: 'amp-web-push-subscription-state',
+  /**
+   * Replies with what identifies the subscriber: by default the push
+   * endpoint. Vendors override it to add their own user ID.
+   */
+  SUBSCRIPTION_IDENTIFIERS: 'amp-web-push-subscription-identifiers',
+  /**
+   * Replies with the worker's registration, as ServiceWorkerRegistrationDetails.
+   */
+  REGISTRATION: 'amp-web-push-registration',
+};
+
+export interface WorkerCommandMessage {
+  command: string,
+  payload: any,
+  /**
+   * Echoed in the reply. Missing from frames predating request IDs.
+   */
+  requestId?: string,
+}
+
+export interface WorkerCommandReply {
+  command: string,
+  payload: any,
+  requestId?: string,
+  /**
+   * Set if the handler failed. The frames only read payload, which is then
+   * null, so a failure looks like an unknown answer to them.
+   */
+  error?: {code: string, message: string},
+}
+
+/**
+ * The subset of a service worker Client a reply is posted to.
+ */
+export interface WorkerMessageSource {
+  url: string,
+  postMessage(message: any): void,
+}
+
+/**
+ * The subset of ServiceWorkerRegistration the default handlers read.
+ */
+export interface WorkerRegistration {
+  scope: string,
+  installing: {scriptURL: string, state: string}|null,
+  waiting: {scriptURL: string, state: string}|null,
+  active: {scriptURL: string, state: string}|null,
+  pushManager?: {
+    getSubscription(): Promise<PushSubscription|null>,
+  },
+}
+
+export interface WorkerCommandContext {
+  registration: WorkerRegistration,
+  /**
+   * The origin of the frame that sent the command.
+   */
+  clientOrigin: string,
+}
+
+export type WorkerCommandHandler =
+  (payload: any, context: WorkerCommandContext) => any;
+
+export interface ServiceWorkerCommandsOptions {
+  registration: WorkerRegistration,
+  /**
+   * Origin rules for the frames allowed to send commands; see
+   * allowed-origins.ts. Messages from other clients are dropped unanswered.
+   */
+  allowedOrigins: Array<string>,
+  debug?: boolean,
+}
+
+export class ServiceWorkerCommands {
+  private registration_: WorkerRegistration;
+  private originRules_: Array<OriginRule>;
+  private handlers_: {[command: string]: WorkerCommandHandler};
+  private debug_: boolean;
+
+  /**
+   * Throws if an allowed origin rule is malformed.
+   */
+  constructor(options: ServiceWorkerCommandsOptions) {
+    this.registration_ = options.registration;
+    this.originRules_ = compileOriginRules(options.allowedOrigins);
+    this.debug_ = !!options.debug;
+    this.handlers_ = {};
+
+    this.register(WorkerCommands.SUBSCRIPTION_STATE,
+        this.onSubscriptionState_.bind(this));
+    this.register(WorkerCommands.SUBSCRIPTION_IDENTIFIERS,
+        this.onSubscriptionIdentifiers_.bind(this));
+    this.register(WorkerCommands.REGISTRATION,
+        this.onRegistration_.bind(this));
+  }
+
+  /**
+   * Registers the handler answering a command, replacing any previous one,
+   * including the default handlers. The handler's return value, or what its
+   * Promise resolves with, is the reply payload.
+   */
+  register(command: string, handler: WorkerCommandHandler) {
+    this.handlers_[command] = handler;
+  }
+
+  /**
+   * Handles a message event's data and source. Resolves once the reply, if
+   * any, has been posted; pass the Promise to ExtendableMessageEvent.waitUntil()
+   * to keep the worker alive until then. Never rejects.
+   */
+  handleMessage(data: any, source: WorkerMessageSource|null): Promise<void> {
+    if (!data || typeof data.command !== 'string') {
+      // Not ours: the worker may speak other protocols too
+      return Promise.resolve();
+    }
+    const message = data as WorkerCommandMessage;
+    const clientOrigin = source ? getOrigin(source.url) : null;
+    if (!clientOrigin || !isOriginAllowed(clientOrigin, this.originRules_)) {
+      this.log_(`Dropping '${message.command}' from a client that isn't on ` +
+        `an allowed origin: ${source ? source.url : 'unknown'}`);
+      return Promise.resolve();
+    }
+    const handler = this.handlers_[message.command];
+    if (!handler) {
+      this.log_(`Dropping unknown command '${message.command}'.`);
+      return Promise.resolve();
+    }
+
+    const context: WorkerCommandContext = {
+      registration: this.registration_,
+      clientOrigin,
+    };
+    return Promise.resolve()
+      .then(() => handler(message.payload, context))
+      .then(payload => {
+        this.reply_(source, {
+          command: message.command,
+          payload,
+          requestId: message.requestId,
+        });
+      }, error => {
+        this.log_(`The handler for '${message.command}' failed:`, error);
+        this.reply_(source, {
+          command: message.command,
+          payload: null,
+          requestId: message.requestId,
+          error: {
+            code: error && error.name || 'error',
+            message: error ? (error.message || String(error)) : 'error',
+          },
+        });
+      });
+  }
+
+  private reply_(source: WorkerMessageSource, reply: WorkerCommandReply) {
+    if (reply.requestId === undefined) {
+      // Old frames match replies by command alone
+      delete reply.requestId;
+    }
+    try {
+      source.postMessage(reply);
+    } catch (e) {
+      this.log_(`Could not reply to '${reply.command}':`, e);
+    }
+  }
+
+  private getSubscription_(registration: WorkerRegistration): Promise<PushSubscription|null> {
+    if (!registration.pushManager) {
+      return Promise.resolve(null);
+    }
+    return registration.pushManager.getSubscription()
+      .then(subscription => subscription || null);
+  }
+
+  private onSubscriptionState_(_: any, context: WorkerCommandContext): Promise<boolean> {
+    return this.getSubscription_(context.registration)
+      .then(subscription => !!subscription);
+  }
+
+  private onSubscriptionIdentifiers_(_: any, context: WorkerCommandContext): Promise<any> {
+    return this.getSubscription_(context.registration).then(subscription => {
+      const serialized = serializeSubscription(subscription);
+      return serialized ? {endpoint: serialized.endpoint} : null;
+    });
+  }
+
+  private onRegistration_(_: any, context: WorkerCommandContext): ServiceWorkerRegistrationDetails {
+    return describeRegistration(context.registration as any);
+  }
+
+  private log_(...args: any[]) {
+    if (this.debug_) {
+      args.unshift('[Service Worker Commands]');
+      console.log.apply(console, args);
+    }
+  }
+}
+
+function getOrigin(url: string): string|null {
+  try {
+    return new URL(url).origin;
+  } catch (e) {
+    return null;
+  }
+}
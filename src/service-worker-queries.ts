@@ -0,0 +1,167 @@
+import {ServiceWorkerMessage} from './topics';
+
+function log(...args_: any[]) {
+  if (typeof (window as any)._LOG !== "undefined") {
+    const args = Array.prototype.slice.call(arguments);
+    args.unshift(`[Service Worker Queries: ${location.origin}]`);
+    console.log.apply(window.console, args);
+  }
+}
+
+/**
+ * The message posted to the service worker. The worker is expected to echo
+ * command and requestId in its reply, alongside its reply payload.
+ */
+export interface WorkerQueryMessage {
+  command: string,
+  payload: any,
+  requestId: string,
+}
+
+export type WorkerQueryErrorCode = 'timeout' | 'unavailable';
+
+/**
+ * The error a pending worker query rejects with when no reply will be
+ * delivered.
+ */
+export class WorkerQueryError extends Error {
+  public code: WorkerQueryErrorCode;
+  public command: string;
+
+  constructor(code: WorkerQueryErrorCode, command: string, message: string) {
+    super(message);
+    // Restores the prototype chain broken by extending Error in ES5
+    (Object as any).setPrototypeOf(this, WorkerQueryError.prototype);
+    this.name = 'WorkerQueryError';
+    this.code = code;
+    this.command = command;
+  }
+}
+
+interface PendingQuery {
+  command: string,
+  resolve: (payload: any) => void,
+  reject: (error: Error) => void,
+  timeoutId: number|null,
+}
+
+ /**
+  * @fileoverview
+  * Matches service worker replies to the queries that asked for them.
+  *
+  * Every query is posted with a unique request ID that the worker echoes back,
+  * so several queries with the same command can be in flight at once. Replies
+  * without a request ID, from workers predating request IDs, are matched to
+  * the oldest pending query with the same command. Replies matching no pending
+  * query (unsolicited, or arriving after their query timed out) are logged and
+  * dropped.
+  */
+export class ServiceWorkerQueries {
+  private pendingQueries_: {[requestId: string]: PendingQuery};
+  /**
+   * Request IDs in the order their queries were sent, to match replies from
+   * workers that don't echo request IDs.
+   */
+  private requestIdOrder_: Array<string>;
+  private defaultTimeout_: number;
+
+  /**
+   * @param defaultTimeout The number of milliseconds a query waits for a reply
+   * when it doesn't specify a timeout. Pass 0 to wait indefinitely.
+   */
+  constructor(defaultTimeout: number) {
+    this.pendingQueries_ = {};
+    this.requestIdOrder_ = [];
+    this.defaultTimeout_ = defaultTimeout;
+  }
+
+  /**
+   * Sends a query to the service worker and resolves with the worker's reply
+   * payload, or rejects with a 'timeout' WorkerQueryError.
+   *
+   * @param postToWorker Posts the message to the worker. It may wait for a
+   * worker to become available first; that wait counts towards the timeout.
+   */
+  query(
+    message: ServiceWorkerMessage,
+    postToWorker: (workerMessage: WorkerQueryMessage) => any,
+    timeout?: number): Promise<any> {
+    const requestId =
+      (<Uint8Array>crypto.getRandomValues(new Uint8Array(10))).join('');
+    const command = message.topic;
+    const effectiveTimeout = typeof timeout === 'number' ?
+      timeout :
+      this.defaultTimeout_;
+
+    return new Promise((resolve, reject) => {
+      const pendingQuery: PendingQuery = {
+        command,
+        resolve,
+        reject,
+        timeoutId: null,
+      };
+      if (effectiveTimeout > 0) {
+        pendingQuery.timeoutId = setTimeout(() => {
+          this.forget_(requestId);
+          reject(new WorkerQueryError('timeout', command,
+            `The service worker didn't reply to '${command}' within ` +
+            `${effectiveTimeout} ms.`));
+        }, effectiveTimeout) as any;
+      }
+      this.pendingQueries_[requestId] = pendingQuery;
+      this.requestIdOrder_.push(requestId);
+
+      Promise.resolve().then(() => postToWorker({
+        command,
+        payload: message.payload,
+        requestId,
+      })).catch(error => {
+        this.forget_(requestId);
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Handles a message event from the service worker, resolving the matching
+   * query.
+   */
+  onWorkerMessage(event: MessageEvent) {
+    const data = event.data || {};
+    const {command, payload, requestId} = data;
+    const matchedRequestId = requestId !== undefined ?
+      requestId :
+      this.findOldestRequestId_(command);
+    const pendingQuery = this.pendingQueries_[matchedRequestId];
+
+    if (!pendingQuery || pendingQuery.command !== command) {
+      log(`Dropping unsolicited or late service worker reply for ` +
+        `'${command}' (request ${requestId}):`, payload);
+      return;
+    }
+    this.forget_(matchedRequestId);
+    pendingQuery.resolve(payload);
+  }
+
+  private findOldestRequestId_(command: string): string|undefined {
+    for (let i = 0; i < this.requestIdOrder_.length; i++) {
+      const pendingQuery = this.pendingQueries_[this.requestIdOrder_[i]];
+      if (pendingQuery && pendingQuery.command === command) {
+        return this.requestIdOrder_[i];
+      }
+    }
+    return undefined;
+  }
+
+  private forget_(requestId: string) {
+    const pendingQuery = this.pendingQueries_[requestId];
+    if (pendingQuery && pendingQuery.timeoutId !== null) {
+      clearTimeout(pendingQuery.timeoutId);
+    }
+    delete this.pendingQueries_[requestId];
+    const index = this.requestIdOrder_.indexOf(requestId);
+    if (index !== -1) {
+      this.requestIdOrder_.splice(index, 1);
+    }
+  }
+}
@@ -0,0 +1,180 @@
+import {DetectionVerdict, SubscriptionStateMessage} from './topics';
+import {
+  matchWorkerUrl,
+  OneSignalPushVendorAdapter,
+  PushVendorAdapter,
+} from './push-vendor-adapters';
+
+export {DetectionVerdict} from './topics';
+
+/**
+ * @fileoverview
+ * Decides from an alternate origin's SubscriptionStateMessage whether the
+ * visitor is subscribed there, following declarative rules instead of a fixed
+ * check for OneSignal's worker.
+ */
+
+/**
+ * The SubscriptionStateMessage fields a rule set can require, and what each
+ * requires:
+ *   - notificationPermission: 'granted'
+ *   - serviceWorkerIsControllingFrame: true
+ *   - serviceWorkerState: 'activated'
+ *   - serviceWorkerSubscriptionState: true
+ *   - serviceWorkerUrl: matches one of workerUrlPatterns
+ *   - pushSubscription: a registration reports a push subscription, read from
+ *     PushManager even if the worker doesn't answer. Not required by default.
+ */
+export type DetectionField =
+  'notificationPermission' |
+  'serviceWorkerIsControllingFrame' |
+  'serviceWorkerState' |
+  'serviceWorkerSubscriptionState' |
+  'serviceWorkerUrl' |
+  'pushSubscription';
+
+export interface SubscriptionDetectionRules {
+  /**
+   * Worker script URL patterns recognized as push workers. Strings match
+   * anywhere in the URL; regular expressions are tested against it. Defaults to
+   * the push vendor adapter's worker scripts.
+   */
+  workerUrlPatterns?: Array<string|RegExp>,
+  /**
+   * The fields that must all hold for a subscription to be detected. Defaults
+   * to every field but pushSubscription.
+   */
+  requiredFields?: Array<DetectionField>,
+  /**
+   * An extra condition checked once every required field holds.
+   */
+  predicate?: (state: SubscriptionStateMessage) => boolean,
+}
+
+export const DEFAULT_WORKER_URL_PATTERNS: Array<string|RegExp> =
+  new OneSignalPushVendorAdapter().workerUrlPatterns;
+
+const DEFAULT_REQUIRED_FIELDS: Array<DetectionField> = [
+  'notificationPermission',
+  'serviceWorkerIsControllingFrame',
+  'serviceWorkerState',
+  'serviceWorkerSubscriptionState',
+  'serviceWorkerUrl',
+];
+
+const ALL_DETECTION_FIELDS: Array<DetectionField> =
+  DEFAULT_REQUIRED_FIELDS.concat(['pushSubscription']);
+
+function fieldHolds(state: SubscriptionStateMessage, field: DetectionField): boolean {
+  switch (field) {
+    case 'notificationPermission':
+      return state.notificationPermission === 'granted';
+    case 'serviceWorkerIsControllingFrame':
+      return state.serviceWorkerIsControllingFrame === true;
+    case 'serviceWorkerState':
+      return state.serviceWorkerState === 'activated';
+    case 'serviceWorkerSubscriptionState':
+      return state.serviceWorkerSubscriptionState === true;
+    case 'pushSubscription':
+      return Array.isArray(state.registrations) &&
+        state.registrations.some(registration => registration.subscribed);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Throws if the rules are malformed, so a configuration mistake surfaces when
+ * the helper frame starts rather than as a wrong verdict.
+ */
+export function validateDetectionRules(rules: SubscriptionDetectionRules) {
+  if (!rules) {
+    return;
+  }
+  if (rules.workerUrlPatterns !== undefined) {
+    if (!Array.isArray(rules.workerUrlPatterns) ||
+        rules.workerUrlPatterns.length === 0) {
+      throw new Error('workerUrlPatterns should be a non-empty array.');
+    }
+    for (let i = 0; i < rules.workerUrlPatterns.length; i++) {
+      const pattern = rules.workerUrlPatterns[i];
+      if (!(pattern instanceof RegExp) &&
+          (typeof pattern !== 'string' || !pattern)) {
+        throw new Error('workerUrlPatterns should only contain non-empty ' +
+          'strings and regular expressions. Got:' + pattern);
+      }
+    }
+  }
+  if (rules.requiredFields !== undefined) {
+    if (!Array.isArray(rules.requiredFields)) {
+      throw new Error('requiredFields should be an array.');
+    }
+    for (let i = 0; i < rules.requiredFields.length; i++) {
+      if (ALL_DETECTION_FIELDS.indexOf(rules.requiredFields[i]) === -1) {
+        throw new Error(`Unknown required field '${rules.requiredFields[i]}'. ` +
+          `Expected one of ${ALL_DETECTION_FIELDS.join(', ')}.`);
+      }
+    }
+  }
+  if (rules.predicate !== undefined && typeof rules.predicate !== 'function') {
+    throw new Error('predicate should be a function.');
+  }
+}
+
+/**
+ * Decides whether the state describes an active subscription.
+ *
+ * @param vendorAdapter Supplies the worker URL patterns when the rules don't.
+ * Defaults to OneSignal's patterns.
+ */
+export function detectSubscription(
+  state: SubscriptionStateMessage,
+  rules?: SubscriptionDetectionRules,
+  vendorAdapter?: PushVendorAdapter): DetectionVerdict {
+  rules = rules || {};
+  const requiredFields = rules.requiredFields || DEFAULT_REQUIRED_FIELDS;
+  const workerUrlPatterns = rules.workerUrlPatterns ||
+    (vendorAdapter ?
+      vendorAdapter.workerUrlPatterns :
+      DEFAULT_WORKER_URL_PATTERNS);
+
+  let matchedPattern = null;
+  for (let i = 0; i < requiredFields.length; i++) {
+    const field = requiredFields[i];
+    if (field === 'serviceWorkerUrl') {
+      matchedPattern = matchWorkerUrl(state.serviceWorkerUrl,
+          workerUrlPatterns);
+      if (!matchedPattern) {
+        return {
+          subscribed: false,
+          rule: 'required:serviceWorkerUrl',
+          explanation: `The worker URL ${state.serviceWorkerUrl} matches none ` +
+            `of ${workerUrlPatterns.join(', ')}.`,
+        };
+      }
+    } else if (!fieldHolds(state, field)) {
+      return {
+        subscribed: false,
+        rule: `required:${field}`,
+        explanation: field === 'pushSubscription' ?
+          'No registration reports a push subscription.' :
+          `${field} is ${state[field]}.`,
+      };
+    }
+  }
+
+  if (rules.predicate && !rules.predicate(state)) {
+    return {
+      subscribed: false,
+      rule: 'predicate',
+      explanation: 'The custom predicate rejected the state.',
+    };
+  }
+  return {
+    subscribed: true,
+    rule: matchedPattern || 'required-fields',
+    explanation: matchedPattern ?
+      `Every required field holds and the worker URL matches ${matchedPattern}.` :
+      'Every required field holds.',
+  };
+}
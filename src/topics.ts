@@ -0,0 +1,822 @@
+/**
+ * @fileoverview
+ * The registry of WindowMessenger topics: for each topic, the shape of the
+ * message sent and of the reply, and a runtime validator for both.
+ *
+ * Payloads cross a frame boundary, so the compile-time shapes below are only a
+ * promise about what the other side sends. WindowMessenger runs the validators
+ * on every incoming message and reply, and rejects malformed ones with an
+ * 'invalid-payload' error before any handler sees them.
+ *
+ * Like WindowMessenger, this file is bundled into remote frames and should
+ * stay free of external dependencies.
+ */
+
+export interface MessengerTopics {
+  CONNECT_HANDSHAKE: 'topic-connect-handshake',
+  CONNECT_CHALLENGE: 'topic-connect-challenge',
+  NOTIFICATION_PERMISSION_STATE: 'topic-notification-permission-state',
+  NOTIFICATION_PERMISSION_REQUEST: 'topic-notification-permission-request',
+  SERVICE_WORKER_STATE: 'topic-service-worker-state',
+  SERVICE_WORKER_REGISTRATION: 'topic-service-worker-registration',
+  SERVICE_WORKER_QUERY: 'topic-service-worker-query',
+  SERVICE_WORKER_UPDATE: 'topic-service-worker-update',
+  SERVICE_WORKER_UNREGISTER: 'topic-service-worker-unregister',
+  SERVICE_WORKER_LIST_REGISTRATIONS: 'topic-service-worker-list-registrations',
+  SERVICE_WORKER_REPLACE: 'topic-service-worker-replace',
+  PUSH_SUBSCRIBE: 'topic-push-subscribe',
+  PUSH_UNSUBSCRIBE: 'topic-push-unsubscribe',
+  PUSH_GET_SUBSCRIPTION: 'topic-push-get-subscription',
+  ALTERNATE_ORIGIN_RECHECK: 'topic-alternate-origin-recheck',
+  ALTERNATE_ORIGIN_DIAGNOSTICS: 'topic-alternate-origin-diagnostics',
+  ORIGIN_SUBSCRIPTION_STATE: 'topic-origin-subscription-state',
+  ORIGIN_MIGRATE: 'topic-origin-migrate',
+  PARENT_CHALLENGE: 'topic-parent-challenge',
+  HEARTBEAT: 'topic-heartbeat',
+  DISCONNECT: 'topic-disconnect',
+  OBSERVE: 'topic-observe',
+  UNOBSERVE: 'topic-unobserve',
+  OBSERVED_UPDATE: 'topic-observed-update',
+  OBSERVE_END: 'topic-observe-end',
+}
+
+/**
+ * The consistent reply format used by the helper frame for every AMP page
+ * request.
+ */
+export interface HelperFrameReply<T> {
+  success: boolean,
+  error?: any,
+  result?: T,
+}
+
+export interface NotificationPermissionRequestMessage {
+  /**
+   * Set by the AMP page to confirm the request follows a user gesture, like a
+   * click on the subscribe button. Browsers ignore or quietly block prompts
+   * without one, so requests without it are refused.
+   */
+  userActivated: boolean,
+}
+
+export interface NotificationPermissionRequestResult {
+  /**
+   * The permission after the request, normalized to the Notification API's
+   * values.
+   */
+  permission: NotificationPermission,
+  previousPermission: NotificationPermission,
+  /**
+   * False when the permission had already been granted or denied, so no prompt
+   * was requested.
+   */
+  prompted: boolean,
+  /**
+   * True when the prompt resolved without granting the permission too quickly
+   * for a person to have answered it, meaning the browser blocked it without
+   * showing it.
+   */
+  quietlyBlocked: boolean,
+}
+
+export interface ServiceWorkerMessage {
+  topic: string,
+  payload: any,
+  /**
+   * The number of milliseconds to wait for the service worker's reply,
+   * overriding the helper frame's default.
+   */
+  timeout?: number,
+}
+
+/**
+ * How a service worker query reached the worker: through the page's
+ * controller, by messaging the active worker of the page's registration
+ * directly, or not at all.
+ */
+export type WorkerPath = 'controller' | 'active-registration' | 'unavailable';
+
+export interface ServiceWorkerQueryReply extends HelperFrameReply<any> {
+  /**
+   * Missing from failed replies refused before the worker was looked for, like
+   * while an alternate origin blocks AMP web push.
+   */
+  workerPath?: WorkerPath,
+}
+
+/**
+ * What the remote frame read directly from one of its origin's registrations,
+ * without relying on the worker to answer.
+ */
+export interface RemoteRegistrationState {
+  scope: string,
+  scriptUrl: string|null,
+  state: string|null,
+  /**
+   * PushManager.permissionState() for user visible notifications, or null
+   * where it's unsupported or failed.
+   */
+  pushPermissionState: string|null,
+  subscribed: boolean,
+  /**
+   * The push service's host, like fcm.googleapis.com. The full endpoint isn't
+   * reported, since it's enough to send pushes to the visitor.
+   */
+  endpointHost: string|null,
+  expirationTime: number|null,
+}
+
+export interface SubscriptionStateMessage {
+  notificationPermission: NotificationPermission,
+  serviceWorkerUrl: string;
+  serviceWorkerState: string;
+  serviceWorkerIsControllingFrame: boolean;
+  serviceWorkerSubscriptionState: boolean;
+  /**
+   * Every registration on the remote origin. Missing from remote frames that
+   * predate it.
+   */
+  registrations?: Array<RemoteRegistrationState>;
+}
+
+export interface ServiceWorkerRegistrationMessage {
+  workerUrl: string,
+  registrationOptions: {scope: string}
+}
+
+export interface ServiceWorkerDetails {
+  scriptUrl: string,
+  state: string,
+}
+
+/**
+ * Describes a service worker registration. scriptUrl and state are those of
+ * the newest worker: installing, then waiting, then active.
+ */
+export interface ServiceWorkerRegistrationDetails {
+  scope: string,
+  scriptUrl: string|null,
+  state: string|null,
+  installing: ServiceWorkerDetails|null,
+  waiting: ServiceWorkerDetails|null,
+  active: ServiceWorkerDetails|null,
+}
+
+/**
+ * Identifies the registration to update or unregister. Without a scope, the
+ * registration for the helper frame's page is used.
+ */
+export interface ServiceWorkerScopeMessage {
+  scope?: string,
+}
+
+export interface ServiceWorkerUnregisterResult {
+  unregistered: boolean,
+  registration: ServiceWorkerRegistrationDetails,
+}
+
+export interface ServiceWorkerReplaceMessage extends ServiceWorkerRegistrationMessage {
+  /**
+   * Scripts being moved off of, like the path to an old OneSignalSDKWorker.js.
+   * Registrations running one of these scripts are unregistered, but only once
+   * the new worker has registered successfully.
+   */
+  replacesWorkerUrls?: Array<string>,
+}
+
+export interface ServiceWorkerReplaceResult {
+  registration: ServiceWorkerRegistrationDetails,
+  /**
+   * The registrations that ran a replaced script and were unregistered.
+   */
+  unregistered: Array<ServiceWorkerRegistrationDetails>,
+}
+
+/**
+ * A PushSubscription in the same shape as PushSubscription.toJSON(). Keys are
+ * base64url encoded.
+ */
+export interface SerializedPushSubscription {
+  endpoint: string,
+  expirationTime: number|null,
+  keys: {
+    p256dh: string|null,
+    auth: string|null,
+  },
+}
+
+export interface PushSubscribeMessage extends ServiceWorkerScopeMessage {
+  /**
+   * The VAPID application server public key, base64url encoded.
+   */
+  applicationServerKey: string,
+}
+
+export interface PushUnsubscribeResult {
+  unsubscribed: boolean,
+  /**
+   * The subscription that was unsubscribed, or null if there was none.
+   */
+  subscription: SerializedPushSubscription|null,
+}
+
+/**
+ * Explains the detection decision for one alternate origin.
+ */
+export interface DetectionVerdict {
+  subscribed: boolean,
+  /**
+   * The rule that decided: 'required:<field>' for the first required field that
+   * didn't hold, 'predicate' if the custom predicate failed, or the worker URL
+   * pattern that matched (or 'required-fields' if the worker URL wasn't
+   * required) when subscribed.
+   */
+  rule: string,
+  explanation: string,
+}
+
+/**
+ * Sent by a remote frame to prove its parent holds the other end of the
+ * channel and is the origin it was connected to.
+ */
+export interface ParentChallengeMessage {
+  nonce: string,
+}
+
+export interface ParentChallengeReply {
+  /**
+   * The challenge's nonce, echoed back.
+   */
+  nonce: string,
+  origin: string,
+}
+
+/**
+ * What a remote frame did when asked to migrate its origin's subscription.
+ */
+export interface OriginMigrationResult {
+  unsubscribed: boolean,
+  /**
+   * The push subscription that was unsubscribed, or null if there was none.
+   */
+  subscription: SerializedPushSubscription|null,
+  /**
+   * What the push vendor adapter extracted to identify the subscriber, like
+   * the endpoint and the vendor's user ID, or null if nothing did.
+   */
+  workerIdentifiers: any,
+}
+
+/**
+ * 'migrated' means the origin had a subscription, and its remote frame
+ * unsubscribed it in migration mode. 'timeout' means the remote frame loaded
+ * but didn't report its state in time; 'iframe-load-failed' means it never
+ * loaded.
+ */
+export type AltOriginOutcome =
+  'subscribed' | 'unsubscribed' | 'timeout' | 'iframe-load-failed' | 'migrated';
+
+export interface AlternateCheckResult {
+  /**
+   * True if AMP web push should stay disabled.
+   */
+  blocked: boolean,
+  /**
+   * The origin that caused the block, or null.
+   */
+  blockingOrigin: string|null,
+  /**
+   * Why blockingOrigin blocked: it has a subscription, or it didn't answer
+   * and the no-answer policy blocks.
+   */
+  reason: 'subscribed' | 'timeout' | 'iframe-load-failed' | null,
+  /**
+   * The outcome of the check on each alternate origin.
+   */
+  outcomes: {[origin: string]: AltOriginOutcome},
+  /**
+   * For each origin that answered, which detection rule decided its outcome.
+   */
+  verdicts: {[origin: string]: DetectionVerdict},
+  /**
+   * The state each origin's remote frame reported, as is. Origins answered
+   * from the cache have none.
+   */
+  states: {[origin: string]: SubscriptionStateMessage},
+  /**
+   * The origins whose verdict came from the cache instead of their remote
+   * frame.
+   */
+  cachedOrigins: Array<string>,
+  /**
+   * For each origin migrated in migration mode, what its remote frame did.
+   */
+  migrations: {[origin: string]: OriginMigrationResult},
+}
+
+export interface ServiceWorkerStateResult {
+  isControllingFrame: boolean,
+  url: string|null,
+  state: string|null,
+}
+
+/**
+ * Maps each topic to the data sent with it (request) and the data replied
+ * (reply). WindowMessenger.on() and send() are type-checked against this.
+ */
+export interface TopicRegistry {
+  'topic-notification-permission-state': {
+    request: null,
+    reply: HelperFrameReply<NotificationPermission>,
+  },
+  'topic-notification-permission-request': {
+    request: NotificationPermissionRequestMessage,
+    reply: HelperFrameReply<NotificationPermissionRequestResult>,
+  },
+  'topic-service-worker-state': {
+    request: null,
+    reply: HelperFrameReply<ServiceWorkerStateResult>,
+  },
+  'topic-service-worker-registration': {
+    request: ServiceWorkerRegistrationMessage,
+    reply: HelperFrameReply<ServiceWorkerRegistrationDetails>,
+  },
+  'topic-service-worker-update': {
+    request: ServiceWorkerScopeMessage|null,
+    reply: HelperFrameReply<ServiceWorkerRegistrationDetails>,
+  },
+  'topic-service-worker-unregister': {
+    request: ServiceWorkerScopeMessage|null,
+    reply: HelperFrameReply<ServiceWorkerUnregisterResult>,
+  },
+  'topic-service-worker-list-registrations': {
+    request: null,
+    reply: HelperFrameReply<Array<ServiceWorkerRegistrationDetails>>,
+  },
+  'topic-service-worker-replace': {
+    request: ServiceWorkerReplaceMessage,
+    reply: HelperFrameReply<ServiceWorkerReplaceResult>,
+  },
+  'topic-service-worker-query': {
+    request: ServiceWorkerMessage,
+    reply: ServiceWorkerQueryReply,
+  },
+  'topic-push-subscribe': {
+    request: PushSubscribeMessage,
+    reply: HelperFrameReply<SerializedPushSubscription>,
+  },
+  'topic-push-unsubscribe': {
+    request: ServiceWorkerScopeMessage|null,
+    reply: HelperFrameReply<PushUnsubscribeResult>,
+  },
+  'topic-push-get-subscription': {
+    request: ServiceWorkerScopeMessage|null,
+    reply: HelperFrameReply<SerializedPushSubscription|null>,
+  },
+  'topic-alternate-origin-recheck': {
+    request: null,
+    reply: HelperFrameReply<AlternateCheckResult>,
+  },
+  'topic-alternate-origin-diagnostics': {
+    request: null,
+    reply: HelperFrameReply<AlternateCheckResult|null>,
+  },
+  'topic-origin-subscription-state': {
+    request: SubscriptionStateMessage,
+    reply: null,
+  },
+  'topic-origin-migrate': {
+    request: null,
+    reply: HelperFrameReply<OriginMigrationResult>,
+  },
+  'topic-parent-challenge': {
+    request: ParentChallengeMessage,
+    reply: ParentChallengeReply,
+  },
+}
+
+export type TopicName = keyof TopicRegistry;
+export type TopicRequest<K extends TopicName> = TopicRegistry[K]['request'];
+export type TopicReply<K extends TopicName> = TopicRegistry[K]['reply'];
+
+/**
+ * Maps each topic that can be observed with WindowMessenger.observe() to the
+ * data pushed whenever its value changes.
+ */
+export interface ObservableTopicRegistry {
+  'topic-notification-permission-state': NotificationPermission,
+  'topic-service-worker-state': ServiceWorkerStateResult,
+}
+
+export type ObservableTopicName = keyof ObservableTopicRegistry;
+export type ObservableTopicUpdate<K extends ObservableTopicName> =
+  ObservableTopicRegistry[K];
+
+/**
+ * Returns a description of what is wrong with the payload, or null if it's
+ * valid.
+ */
+export type PayloadValidator = (payload: any) => string|null;
+
+type FieldType = 'string' | 'boolean' | 'number' | 'object' | 'array' | 'any';
+
+interface FieldSpec {
+  type: FieldType,
+  optional?: boolean,
+  nullable?: boolean,
+  oneOf?: Array<any>,
+  fields?: {[name: string]: FieldSpec},
+  /**
+   * For arrays, the spec every item must match.
+   */
+  items?: FieldSpec,
+}
+
+function describe(value: any): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  return typeof value === 'string' ? `'${value}'` : typeof value;
+}
+
+function validateField(path: string, value: any, spec: FieldSpec): string|null {
+  if (value === undefined) {
+    return spec.optional ? null : `expected '${path}' to be present`;
+  }
+  if (value === null) {
+    return spec.nullable || spec.optional ?
+      null :
+      `expected '${path}' to be a ${spec.type}, got null`;
+  }
+  if (spec.type !== 'any') {
+    const actualType = Array.isArray(value) ? 'array' : typeof value;
+    if (actualType !== spec.type) {
+      return `expected '${path}' to be a ${spec.type}, got ${describe(value)}`;
+    }
+  }
+  if (spec.oneOf && spec.oneOf.indexOf(value) === -1) {
+    return `expected '${path}' to be one of ${spec.oneOf.join(', ')}, got ` +
+      describe(value);
+  }
+  if (spec.items) {
+    for (let i = 0; i < value.length; i++) {
+      const error = validateField(`${path}[${i}]`, value[i], spec.items);
+      if (error) {
+        return error;
+      }
+    }
+  }
+  if (spec.fields) {
+    const fieldNames = Object.keys(spec.fields);
+    for (let i = 0; i < fieldNames.length; i++) {
+      const name = fieldNames[i];
+      const error = validateField(`${path}.${name}`, value[name],
+          spec.fields[name]);
+      if (error) {
+        return error;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns a validator checking the payload against the field spec.
+ */
+function expect(spec: FieldSpec): PayloadValidator {
+  return payload => validateField('payload', payload, spec);
+}
+
+/**
+ * Returns a validator for a HelperFrameReply whose result, when successful,
+ * matches the result spec.
+ */
+function expectHelperFrameReply(resultSpec: FieldSpec): PayloadValidator {
+  return payload => {
+    const envelopeError = validateField('payload', payload, {
+      type: 'object',
+      fields: {
+        success: {type: 'boolean'},
+      },
+    });
+    if (envelopeError) {
+      return envelopeError;
+    }
+    return payload.success ?
+      validateField('payload.result', payload.result, resultSpec) :
+      null;
+  };
+}
+
+const NOTIFICATION_PERMISSIONS = ['default', 'denied', 'granted'];
+
+const NO_PAYLOAD: FieldSpec = {type: 'any', optional: true, nullable: true};
+
+const NOTIFICATION_PERMISSION_SPEC: FieldSpec = {
+  type: 'string',
+  oneOf: NOTIFICATION_PERMISSIONS,
+};
+
+const SERVICE_WORKER_REGISTRATION_SPEC: FieldSpec = {
+  type: 'object',
+  fields: {
+    workerUrl: {type: 'string'},
+    registrationOptions: {
+      type: 'object',
+      fields: {
+        scope: {type: 'string', optional: true},
+      },
+    },
+  },
+};
+
+const SERVICE_WORKER_SCOPE_SPEC: FieldSpec = {
+  type: 'object',
+  optional: true,
+  nullable: true,
+  fields: {
+    scope: {type: 'string', optional: true},
+  },
+};
+
+const WORKER_DETAILS_SPEC: FieldSpec = {
+  type: 'object',
+  nullable: true,
+  fields: {
+    scriptUrl: {type: 'string'},
+    state: {type: 'string'},
+  },
+};
+
+const REGISTRATION_DETAILS_SPEC: FieldSpec = {
+  type: 'object',
+  fields: {
+    scope: {type: 'string'},
+    scriptUrl: {type: 'string', nullable: true},
+    state: {type: 'string', nullable: true},
+    installing: WORKER_DETAILS_SPEC,
+    waiting: WORKER_DETAILS_SPEC,
+    active: WORKER_DETAILS_SPEC,
+  },
+};
+
+const PUSH_SUBSCRIPTION_SPEC: FieldSpec = {
+  type: 'object',
+  fields: {
+    endpoint: {type: 'string'},
+    expirationTime: {type: 'number', nullable: true},
+    keys: {
+      type: 'object',
+      fields: {
+        p256dh: {type: 'string', nullable: true},
+        auth: {type: 'string', nullable: true},
+      },
+    },
+  },
+};
+
+const ALTERNATE_CHECK_RESULT_SPEC: FieldSpec = {
+  type: 'object',
+  fields: {
+    blocked: {type: 'boolean'},
+    blockingOrigin: {type: 'string', nullable: true},
+    reason: {
+      type: 'string',
+      nullable: true,
+      oneOf: ['subscribed', 'timeout', 'iframe-load-failed'],
+    },
+    outcomes: {type: 'object'},
+    verdicts: {type: 'object'},
+    states: {type: 'object'},
+    cachedOrigins: {type: 'array', items: {type: 'string'}},
+    migrations: {type: 'object'},
+  },
+};
+
+const SERVICE_WORKER_STATE_SPEC: FieldSpec = {
+  type: 'object',
+  fields: {
+    isControllingFrame: {type: 'boolean'},
+    url: {type: 'string', nullable: true},
+    state: {type: 'string', nullable: true},
+  },
+};
+
+/**
+ * The runtime validators for each topic's request and reply.
+ */
+export const TOPIC_VALIDATORS: {[topic: string]: {
+  request: PayloadValidator,
+  reply: PayloadValidator,
+}} = {
+  'topic-notification-permission-state': {
+    request: expect(NO_PAYLOAD),
+    reply: expectHelperFrameReply(NOTIFICATION_PERMISSION_SPEC),
+  },
+  'topic-notification-permission-request': {
+    request: expect({
+      type: 'object',
+      fields: {
+        userActivated: {type: 'boolean'},
+      },
+    }),
+    reply: expectHelperFrameReply({
+      type: 'object',
+      fields: {
+        permission: NOTIFICATION_PERMISSION_SPEC,
+        previousPermission: NOTIFICATION_PERMISSION_SPEC,
+        prompted: {type: 'boolean'},
+        quietlyBlocked: {type: 'boolean'},
+      },
+    }),
+  },
+  'topic-service-worker-state': {
+    request: expect(NO_PAYLOAD),
+    reply: expectHelperFrameReply(SERVICE_WORKER_STATE_SPEC),
+  },
+  'topic-service-worker-registration': {
+    request: expect(SERVICE_WORKER_REGISTRATION_SPEC),
+    reply: expectHelperFrameReply(REGISTRATION_DETAILS_SPEC),
+  },
+  'topic-service-worker-update': {
+    request: expect(SERVICE_WORKER_SCOPE_SPEC),
+    reply: expectHelperFrameReply(REGISTRATION_DETAILS_SPEC),
+  },
+  'topic-service-worker-unregister': {
+    request: expect(SERVICE_WORKER_SCOPE_SPEC),
+    reply: expectHelperFrameReply({
+      type: 'object',
+      fields: {
+        unregistered: {type: 'boolean'},
+        registration: REGISTRATION_DETAILS_SPEC,
+      },
+    }),
+  },
+  'topic-service-worker-list-registrations': {
+    request: expect(NO_PAYLOAD),
+    reply: expectHelperFrameReply({
+      type: 'array',
+      items: REGISTRATION_DETAILS_SPEC,
+    }),
+  },
+  'topic-service-worker-replace': {
+    request: expect({
+      type: 'object',
+      fields: {
+        workerUrl: {type: 'string'},
+        registrationOptions: SERVICE_WORKER_REGISTRATION_SPEC.fields
+          .registrationOptions,
+        replacesWorkerUrls: {
+          type: 'array',
+          optional: true,
+          items: {type: 'string'},
+        },
+      },
+    }),
+    reply: expectHelperFrameReply({
+      type: 'object',
+      fields: {
+        registration: REGISTRATION_DETAILS_SPEC,
+        unregistered: {type: 'array', items: REGISTRATION_DETAILS_SPEC},
+      },
+    }),
+  },
+  'topic-service-worker-query': {
+    request: expect({
+      type: 'object',
+      fields: {
+        topic: {type: 'string'},
+        payload: {type: 'any', optional: true, nullable: true},
+        timeout: {type: 'number', optional: true},
+      },
+    }),
+    reply: payload => expectHelperFrameReply(NO_PAYLOAD)(payload) ||
+      validateField('payload.workerPath', payload.workerPath, {
+        type: 'string',
+        optional: payload.success === false,
+        oneOf: ['controller', 'active-registration', 'unavailable'],
+      }),
+  },
+  'topic-push-subscribe': {
+    request: expect({
+      type: 'object',
+      fields: {
+        applicationServerKey: {type: 'string'},
+        scope: {type: 'string', optional: true},
+      },
+    }),
+    reply: expectHelperFrameReply(PUSH_SUBSCRIPTION_SPEC),
+  },
+  'topic-push-unsubscribe': {
+    request: expect(SERVICE_WORKER_SCOPE_SPEC),
+    reply: expectHelperFrameReply({
+      type: 'object',
+      fields: {
+        unsubscribed: {type: 'boolean'},
+        subscription: {
+          type: 'object',
+          nullable: true,
+          fields: PUSH_SUBSCRIPTION_SPEC.fields,
+        },
+      },
+    }),
+  },
+  'topic-push-get-subscription': {
+    request: expect(SERVICE_WORKER_SCOPE_SPEC),
+    reply: expectHelperFrameReply({
+      type: 'object',
+      nullable: true,
+      fields: PUSH_SUBSCRIPTION_SPEC.fields,
+    }),
+  },
+  'topic-alternate-origin-recheck': {
+    request: expect(NO_PAYLOAD),
+    reply: expectHelperFrameReply(ALTERNATE_CHECK_RESULT_SPEC),
+  },
+  'topic-alternate-origin-diagnostics': {
+    request: expect(NO_PAYLOAD),
+    reply: expectHelperFrameReply({
+      type: 'object',
+      nullable: true,
+      fields: ALTERNATE_CHECK_RESULT_SPEC.fields,
+    }),
+  },
+  'topic-origin-subscription-state': {
+    request: expect({
+      type: 'object',
+      fields: {
+        notificationPermission: {
+          type: 'string',
+          oneOf: NOTIFICATION_PERMISSIONS,
+        },
+        serviceWorkerUrl: {type: 'string', optional: true, nullable: true},
+        serviceWorkerState: {type: 'string', optional: true, nullable: true},
+        serviceWorkerIsControllingFrame: {
+          type: 'boolean',
+          optional: true,
+          nullable: true,
+        },
+        // Whatever the vendor's service worker replied with
+        serviceWorkerSubscriptionState: {type: 'any', optional: true},
+        registrations: {
+          type: 'array',
+          optional: true,
+          items: {
+            type: 'object',
+            fields: {
+              scope: {type: 'string'},
+              scriptUrl: {type: 'string', nullable: true},
+              state: {type: 'string', nullable: true},
+              pushPermissionState: {type: 'string', nullable: true},
+              subscribed: {type: 'boolean'},
+              endpointHost: {type: 'string', nullable: true},
+              expirationTime: {type: 'number', nullable: true},
+            },
+          },
+        },
+      },
+    }),
+    reply: expect(NO_PAYLOAD),
+  },
+  'topic-origin-migrate': {
+    request: expect(NO_PAYLOAD),
+    reply: expectHelperFrameReply({
+      type: 'object',
+      fields: {
+        unsubscribed: {type: 'boolean'},
+        subscription: {
+          type: 'object',
+          nullable: true,
+          fields: PUSH_SUBSCRIPTION_SPEC.fields,
+        },
+        workerIdentifiers: {type: 'any', optional: true, nullable: true},
+      },
+    }),
+  },
+  'topic-parent-challenge': {
+    request: expect({
+      type: 'object',
+      fields: {
+        nonce: {type: 'string'},
+      },
+    }),
+    reply: expect({
+      type: 'object',
+      fields: {
+        nonce: {type: 'string'},
+        origin: {type: 'string'},
+      },
+    }),
+  },
+};
+
+/**
+ * The runtime validators for the updates pushed on each observable topic.
+ */
+export const OBSERVABLE_TOPIC_VALIDATORS: {[topic: string]: PayloadValidator} = {
+  'topic-notification-permission-state': expect(NOTIFICATION_PERMISSION_SPEC),
+  'topic-service-worker-state': expect(SERVICE_WORKER_STATE_SPEC),
+};
@@ -1,4 +1,21 @@
-const regex = /(?:^[#?]?|&)([^=&]+)(?:=([^&]*))?/g;
+/**
+ * Thrown by the query string parsers when a key or value holds a malformed
+ * percent-escape, like %E0.
+ */
+export class QueryStringDecodeError extends URIError {
+  /**
+   * The key at fault, decoded if it can be.
+   */
+  public key: string;
+
+  constructor(key: string, message: string) {
+    super(message);
+    // Restores the prototype chain broken by extending Error in ES5
+    (Object as any).setPrototypeOf(this, QueryStringDecodeError.prototype);
+    this.name = 'QueryStringDecodeError';
+    this.key = key;
+  }
+}
 
 /**
  * Parses the query string of an URL. This method returns a simple key/value
@@ -9,17 +26,56 @@ const regex = /(?:^[#?]?|&)([^=&]+)(?:=([^&]*))?/g;
  */
 export function parseQueryString(queryString) {
   const params = /** @type {!JsonObject} */ (Object.create(null));
+  forEachQueryParam(queryString, (name, value) => {
+    params[name] = value;
+  });
+  return params;
+}
+
+/**
+ * Parses the query string of an URL like parseQueryString(), but keeps every
+ * value of a repeated key, in the order they appear.
+ *
+ * @param {string} queryString
+ * @return {!Object<string, !Array<string>>}
+ */
+export function parseQueryStringValues(queryString) {
+  const params = /** @type {!Object<string, !Array<string>>} */ (Object.create(null));
+  forEachQueryParam(queryString, (name, value) => {
+    (params[name] = params[name] || []).push(value);
+  });
+  return params;
+}
+
+/**
+ * Calls back with each decoded key and value, in the order they appear. Throws
+ * a QueryStringDecodeError on a malformed percent-escape.
+ *
+ * The regex is created per call, since a global regex keeps its position
+ * between calls when a decode throws mid-loop.
+ */
+function forEachQueryParam(
+  queryString: string,
+  callback: (name: string, value: string) => void) {
   if (!queryString) {
-    return params;
+    return;
   }
-
+  const regex = /(?:^[#?]?|&)([^=&]+)(?:=([^&]*))?/g;
   let match;
   while ((match = regex.exec(queryString))) {
-    const name = decodeURIComponent(match[1]).trim();
+    const name = decodeQueryComponent(match[1], match[1]).trim();
     const value = match[2] ?
-      decodeURIComponent(match[2]).trim() :
+      decodeQueryComponent(name, match[2]).trim() :
         '';
-    params[name] = value;
+    callback(name, value);
   }
-  return params;
-}
\ No newline at end of file
+}
+
+function decodeQueryComponent(key: string, component: string): string {
+  try {
+    return decodeURIComponent(component);
+  } catch (e) {
+    throw new QueryStringDecodeError(key.trim(),
+      `Malformed percent-escape in ${key.trim()}: ${component}`);
+  }
+}
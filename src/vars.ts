@@ -13,3 +13,17 @@ export const NotificationPermission = {
    */
   DEFAULT: 'default',
 };
+
+/**
+ * Maps a permission state from either API to a NotificationPermission value,
+ * so callers never see 'prompt'. Unknown values are treated as 'default'.
+ */
+export function normalizeNotificationPermission(permission: string): NotificationPermission {
+  switch (permission) {
+    case NotificationPermission.GRANTED:
+    case NotificationPermission.DENIED:
+      return permission as NotificationPermission;
+    default:
+      return NotificationPermission.DEFAULT as NotificationPermission;
+  }
+}
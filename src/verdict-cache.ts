@@ -0,0 +1,139 @@
+import {DetectionVerdict} from './topics';
+
+/**
+ * @fileoverview
+ * Remembers each alternate origin's detection verdict in the helper frame
+ * origin's localStorage, so page views within the TTL don't load a remote
+ * frame per alternate origin.
+ *
+ * Each entry records the helper frame's notification permission when it was
+ * stored. Granting, denying or resetting the permission can mean the visitor
+ * subscribed or unsubscribed somewhere, so an entry stored under another
+ * permission is discarded instead of used.
+ */
+
+function log(...args_: any[]) {
+  if (typeof (window as any)._LOG !== "undefined") {
+    const args = Array.prototype.slice.call(arguments);
+    args.unshift(`[Verdict Cache: ${location.origin}]`);
+    console.log.apply(window.console, args);
+  }
+}
+
+export interface VerdictCacheOptions {
+  /**
+   * The number of milliseconds a subscribed verdict is reused. Pass 0 to never
+   * cache subscribed verdicts.
+   */
+  positiveTtl: number,
+  /**
+   * The number of milliseconds an unsubscribed verdict is reused. Pass 0 to
+   * never cache unsubscribed verdicts.
+   */
+  negativeTtl: number,
+}
+
+interface VerdictCacheEntry {
+  verdict: DetectionVerdict,
+  storedAt: number,
+  permission: string,
+}
+
+const VERDICT_STORAGE_PREFIX = 'amp-web-push-alt-origin-verdict:';
+
+export class VerdictCache {
+  private options_: VerdictCacheOptions;
+
+  constructor(options: VerdictCacheOptions) {
+    this.options_ = options;
+  }
+
+  /**
+   * Returns the origin's cached verdict, or null if there is none still valid
+   * under the current notification permission.
+   */
+  get(origin: string, permission: string): DetectionVerdict|null {
+    const entry = this.read_(origin);
+    if (!entry) {
+      return null;
+    }
+    const ttl = entry.verdict.subscribed ?
+      this.options_.positiveTtl :
+      this.options_.negativeTtl;
+    const age = Date.now() - entry.storedAt;
+    if (entry.permission !== permission) {
+      log(`Discarding the verdict for ${origin}: the notification permission ` +
+        `changed from ${entry.permission} to ${permission}.`);
+      this.delete(origin);
+      return null;
+    }
+    if (age < 0 || age >= ttl) {
+      this.delete(origin);
+      return null;
+    }
+    return entry.verdict;
+  }
+
+  set(origin: string, verdict: DetectionVerdict, permission: string) {
+    const ttl = verdict.subscribed ?
+      this.options_.positiveTtl :
+      this.options_.negativeTtl;
+    if (!(ttl > 0)) {
+      return;
+    }
+    const entry: VerdictCacheEntry = {
+      verdict,
+      storedAt: Date.now(),
+      permission,
+    };
+    try {
+      localStorage.setItem(VERDICT_STORAGE_PREFIX + origin,
+          JSON.stringify(entry));
+    } catch (e) {
+      log('Could not store the alternate origin verdict:', e);
+    }
+  }
+
+  delete(origin: string) {
+    try {
+      localStorage.removeItem(VERDICT_STORAGE_PREFIX + origin);
+    } catch (e) {
+      log('Could not remove the alternate origin verdict:', e);
+    }
+  }
+
+  /**
+   * Removes the verdicts cached for every origin.
+   */
+  clear() {
+    try {
+      const keys = [];
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key && key.indexOf(VERDICT_STORAGE_PREFIX) === 0) {
+          keys.push(key);
+        }
+      }
+      keys.forEach(key => localStorage.removeItem(key));
+    } catch (e) {
+      log('Could not clear the alternate origin verdicts:', e);
+    }
+  }
+
+  private read_(origin: string): VerdictCacheEntry|null {
+    try {
+      const entry = JSON.parse(
+          localStorage.getItem(VERDICT_STORAGE_PREFIX + origin));
+      if (entry && entry.verdict &&
+          typeof entry.verdict.subscribed === 'boolean' &&
+          typeof entry.storedAt === 'number') {
+        return entry;
+      }
+      return null;
+    } catch (e) {
+      // Storage can be unavailable, like with third-party cookies blocked, or
+      // the entry can be corrupt
+      return null;
+    }
+  }
+}
@@ -15,6 +15,18 @@
  */
 
 import {TAG} from './vars';
+import {compileOriginRules, isOriginAllowed, OriginRule} from './allowed-origins';
+import {
+  MessengerTopics,
+  OBSERVABLE_TOPIC_VALIDATORS,
+  ObservableTopicName,
+  ObservableTopicUpdate,
+  PayloadValidator,
+  TOPIC_VALIDATORS,
+  TopicName,
+  TopicReply,
+  TopicRequest,
+} from './topics';
 
 function log(...args_: any[]) {
   if (typeof (window as any)._LOG !== "undefined") {
@@ -24,18 +36,224 @@ function log(...args_: any[]) {
   }
 }
 
-interface MessengerTopics {
-    CONNECT_HANDSHAKE: string,
-    NOTIFICATION_PERMISSION_STATE: string,
-    SERVICE_WORKER_STATE: string,
-    SERVICE_WORKER_REGISTRATION: string,
-    SERVICE_WORKER_QUERY: string,
-    ORIGIN_SUBSCRIPTION_STATE: string,
-}
-
 interface MessengerOptions {
   debug: boolean,
   windowContext: (Window|undefined),
+  /**
+   * The number of milliseconds send() waits for a reply before rejecting, when
+   * the call itself doesn't specify a timeout. Omit or pass 0 to wait
+   * indefinitely.
+   */
+  defaultTimeout?: number,
+  /**
+   * The oldest protocol version this messenger accepts from its peer. Defaults
+   * to WindowMessenger.MIN_PROTOCOL_VERSION.
+   *
+   * When listening, peers claiming an older version are refused before any
+   * other check. Only peers claiming WindowMessenger.NONCE_PROTOCOL_VERSION or
+   * later are challenged, and peers sending no version count as version 1, so
+   * they are never challenged. Pass NONCE_PROTOCOL_VERSION when every peer is
+   * known to support it, so a replayed or forged handshake can't skip the
+   * challenge by claiming an older version.
+   */
+  minProtocolVersion?: number,
+  /**
+   * The topics this messenger advertises to its peer during the connection
+   * handshake. Defaults to the topics with listeners registered via on() at
+   * the time of the handshake.
+   */
+  supportedTopics?: Array<string>,
+  /**
+   * The number of milliseconds between heartbeat pings once connected. Omit or
+   * pass 0 to disable heartbeats. Heartbeats are only sent to peers speaking
+   * protocol version 3 or later.
+   */
+  heartbeatInterval?: number,
+  /**
+   * The number of milliseconds to wait for a heartbeat reply before considering
+   * the peer gone. Defaults to the heartbeat interval.
+   */
+  heartbeatTimeout?: number,
+  /**
+   * Re-establishes the connection after the peer stops answering heartbeats or
+   * disconnects, the way it was first established.
+   */
+  autoReconnect?: boolean,
+  /**
+   * For listen(), the number of milliseconds a connection nonce stays valid:
+   * how old a peer's handshake may be, and how long the peer has to answer the
+   * challenge. Defaults to DEFAULT_HANDSHAKE_NONCE_TTL.
+   */
+  handshakeNonceTtl?: number,
+  /**
+   * For listen(), the most connection attempts accepted from one origin within
+   * handshakeRateInterval. Further attempts are discarded. Defaults to
+   * DEFAULT_HANDSHAKE_MAX_ATTEMPTS.
+   */
+  handshakeMaxAttempts?: number,
+  /**
+   * The number of milliseconds over which handshakeMaxAttempts is counted.
+   * Defaults to DEFAULT_HANDSHAKE_RATE_INTERVAL.
+   */
+  handshakeRateInterval?: number,
+}
+
+const DEFAULT_HANDSHAKE_NONCE_TTL = 10000;
+const DEFAULT_HANDSHAKE_MAX_ATTEMPTS = 10;
+const DEFAULT_HANDSHAKE_RATE_INTERVAL = 10000;
+
+function generateNonce(): string {
+  return (<Uint8Array>crypto.getRandomValues(new Uint8Array(16))).join('');
+}
+
+/**
+ * The data exchanged by both sides of the CONNECT_HANDSHAKE. Peers predating
+ * the protocol version send no data, and are treated as protocol version 1
+ * with unknown supported topics.
+ */
+export interface HandshakeData {
+  protocolVersion: number,
+  minProtocolVersion: number,
+  supportedTopics: Array<string>|null,
+  /**
+   * Set instead of the connection details when the sender refused the
+   * connection.
+   */
+  error?: string,
+  /**
+   * Sent by the connecting side from protocol version 5: a one-time random
+   * value identifying this connection attempt, and when it was made. The
+   * listening side refuses nonces it has seen, and handshakes older than its
+   * nonce TTL.
+   */
+  nonce?: string,
+  issuedAt?: number,
+}
+
+/**
+ * The subset of the DOM AbortSignal used to cancel a pending send(). A real
+ * AbortSignal satisfies this interface, as does CancellationController.signal.
+ */
+export interface CancellationSignal {
+  readonly aborted: boolean;
+  addEventListener(type: 'abort', listener: () => void): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+export interface SendOptions {
+  /**
+   * The number of milliseconds to wait for a reply before rejecting with a
+   * 'timeout' error. Overrides the messenger's default timeout; pass 0 to wait
+   * indefinitely.
+   */
+  timeout?: number,
+  /**
+   * Rejects the pending send with a 'cancelled' error when aborted.
+   */
+  signal?: CancellationSignal,
+}
+
+export type MessengerErrorCode =
+  'timeout' | 'disconnected' | 'cancelled' | 'handler-error' |
+  'incompatible-protocol' | 'invalid-payload' | 'unsupported-topic';
+
+/**
+ * Replies to the message being handled. Resolves with the other side's reply
+ * to this reply, if it sends one.
+ */
+export type ReplyFunction<T> = (data: T, options?: SendOptions) => Promise<any>;
+
+export interface ObserveOptions extends SendOptions {
+  /**
+   * Called once if the observation ends without unobserve() being called: the
+   * peer stopped providing updates, or the channel closed.
+   */
+  onEnd?: (reason: string) => void,
+}
+
+/**
+ * Starts pushing updates for one observer of a topic by calling emit() whenever
+ * the value changes, and returns a function that stops it. Calling end() stops
+ * the observation from this side.
+ */
+export type TopicProducer<K extends ObservableTopicName> = (
+  emit: (data: ObservableTopicUpdate<K>) => void,
+  end: (reason: string) => void
+) => () => void;
+
+/**
+ * Handles a message on a topic. The message data has already been validated
+ * against the topic's registered shape.
+ */
+export type TopicListener<K extends TopicName> =
+  (data: TopicRequest<K>, reply: ReplyFunction<TopicReply<K>>) => any;
+
+/**
+ * The payload of an error reply, sent in place of a normal reply when a topic
+ * handler on the other side throws or rejects.
+ */
+export interface MessengerErrorReply {
+  code: MessengerErrorCode,
+  message: string,
+  topic: string,
+}
+
+/**
+ * The error a pending send() rejects with when no reply will be delivered.
+ */
+export class WindowMessengerError extends Error {
+  public code: MessengerErrorCode;
+  public topic: string;
+
+  constructor(code: MessengerErrorCode, topic: string, message: string) {
+    super(message);
+    // Restores the prototype chain broken by extending Error in ES5
+    (Object as any).setPrototypeOf(this, WindowMessengerError.prototype);
+    this.name = 'WindowMessengerError';
+    this.code = code;
+    this.topic = topic;
+  }
+}
+
+/**
+ * A minimal AbortController for browsers that don't ship one.
+ */
+export class CancellationController {
+  public signal: CancellationSignal;
+  private aborted_: boolean;
+  private listeners_: Array<() => void>;
+
+  constructor() {
+    this.aborted_ = false;
+    this.listeners_ = [];
+    const controller = this;
+    this.signal = {
+      get aborted() {
+        return controller.aborted_;
+      },
+      addEventListener(_: 'abort', listener: () => void) {
+        controller.listeners_.push(listener);
+      },
+      removeEventListener(_: 'abort', listener: () => void) {
+        const index = controller.listeners_.indexOf(listener);
+        if (index !== -1) {
+          controller.listeners_.splice(index, 1);
+        }
+      },
+    };
+  }
+
+  abort() {
+    if (this.aborted_) {
+      return;
+    }
+    this.aborted_ = true;
+    const listeners = this.listeners_.slice();
+    this.listeners_ = [];
+    for (let i = 0; i < listeners.length; i++) {
+      listeners[i]();
+    }
+  }
 }
 
  /**
@@ -60,8 +278,70 @@ export class WindowMessenger {
    * A map of string topic names to callbacks listeners interested in replies
    * to the topic.
    */
-  private listeners_: Map<string, Array<any>|null>;
+  private listeners_: {[topic: string]: Array<any>};
   private debug_: boolean;
+  private defaultTimeout_: number;
+  private minProtocolVersion_: number;
+  private supportedTopics_: Array<string>|null;
+  /**
+   * The highest protocol version supported by both sides, known once the
+   * connection handshake is received.
+   */
+  private protocolVersion_: number|null;
+  private peerHandshake_: HandshakeData|null;
+  private heartbeatInterval_: number;
+  private heartbeatTimeout_: number;
+  private heartbeatTimerId_: number|null;
+  private autoReconnect_: boolean;
+  /**
+   * How the connection was first established, so reconnect() can repeat it.
+   */
+  private connectionArgs_: {
+    allowedOrigins?: Array<string>,
+    remoteWindowContext?: Window,
+    expectedRemoteOrigin?: string,
+  }|null;
+  private hasConnectedBefore_: boolean;
+  private disconnectListeners_: Array<(reason: string) => void>;
+  /**
+   * Observable topic names to the producer started for each new observer.
+   */
+  private producers_: {[topic: string]: TopicProducer<any>};
+  /**
+   * Subscription IDs of the peer's observations to the functions stopping
+   * their producers.
+   */
+  private provisions_: {[subscriptionId: string]: () => void};
+  /**
+   * Subscription IDs of this side's observations to their callbacks.
+   */
+  private observations_: {[subscriptionId: string]: {
+    topic: string,
+    callback: (data: any) => void,
+    onEnd?: (reason: string) => void,
+  }};
+  private reconnectListeners_: Array<() => void>;
+  private handshakeNonceTtl_: number;
+  private handshakeMaxAttempts_: number;
+  private handshakeRateInterval_: number;
+  /**
+   * Nonces of the challenges sent to connecting peers and not yet answered, to
+   * the functions abandoning them.
+   */
+  private pendingChallenges_: {[nonce: string]: () => void};
+  /**
+   * Connection nonces already received from peers, to when they can be
+   * forgotten because they would have expired anyway.
+   */
+  private usedHandshakeNonces_: {[nonce: string]: number};
+  /**
+   * Origins to the times of their recent connection attempts.
+   */
+  private handshakeAttempts_: {[origin: string]: Array<number>};
+  /**
+   * Rejects the connect() or listen() that hasn't settled yet, if any.
+   */
+  private rejectPendingConnection_: ((error: Error) => void)|null;
   private listening_: boolean;
   private connecting_: boolean;
   private connected_: boolean;
@@ -90,6 +370,33 @@ export class WindowMessenger {
     this.messages_ = {} as any;
     this.listeners_ = {} as any;
     this.debug_ = options.debug;
+    this.defaultTimeout_ = options.defaultTimeout || 0;
+    this.minProtocolVersion_ =
+      options.minProtocolVersion || WindowMessenger.MIN_PROTOCOL_VERSION;
+    this.supportedTopics_ = options.supportedTopics || null;
+    this.protocolVersion_ = null;
+    this.peerHandshake_ = null;
+    this.heartbeatInterval_ = options.heartbeatInterval || 0;
+    this.heartbeatTimeout_ =
+      options.heartbeatTimeout || this.heartbeatInterval_;
+    this.heartbeatTimerId_ = null;
+    this.autoReconnect_ = !!options.autoReconnect;
+    this.connectionArgs_ = null;
+    this.hasConnectedBefore_ = false;
+    this.disconnectListeners_ = [];
+    this.producers_ = {};
+    this.provisions_ = {};
+    this.observations_ = {};
+    this.reconnectListeners_ = [];
+    this.handshakeNonceTtl_ =
+      options.handshakeNonceTtl || DEFAULT_HANDSHAKE_NONCE_TTL;
+    this.handshakeMaxAttempts_ =
+      options.handshakeMaxAttempts || DEFAULT_HANDSHAKE_MAX_ATTEMPTS;
+    this.handshakeRateInterval_ =
+      options.handshakeRateInterval || DEFAULT_HANDSHAKE_RATE_INTERVAL;
+    this.pendingChallenges_ = {};
+    this.usedHandshakeNonces_ = {};
+    this.handshakeAttempts_ = {};
     this.listening_ = false;
     this.connecting_ = false;
     this.connected_ = false;
@@ -100,6 +407,7 @@ export class WindowMessenger {
     this.onListenConnectionMessageReceivedProc_ = null;
     this.onConnectConnectionMessageReceivedProc_ = null;
     this.onChannelMessageReceivedProc_ = null;
+    this.rejectPendingConnection_ = null;
     this.window_ = options.windowContext || window;
   }
 
@@ -108,9 +416,11 @@ export class WindowMessenger {
    * possible and expect a future postMessage() to establish a MessageChannel.
    * The remote frame initiates the connection.
    *
-   * @param allowedOrigins A list of string origins to check against when
+   * @param allowedOrigins A list of allowed origin rules to check against when
    *     receiving connection messages. A message from outside this list of
-   *     origins won't be accepted.
+   *     origins won't be accepted. Rules are exact origins, or subdomain
+   *     wildcards like https://*.cdn.ampproject.org; see allowed-origins.ts.
+   *     A malformed rule rejects the returned Promise.
    * @param delayConnectHandshake Allows this frame to partially connect with
    * another frame, but suspends the final connection handshake indefinitely to
    * run other code.
@@ -132,12 +442,22 @@ export class WindowMessenger {
           'allowed origins to accept messages from. Got:' + allowedOrigins));
         return;
       }
+      let originRules: Array<OriginRule>;
+      try {
+        originRules = compileOriginRules(allowedOrigins);
+      } catch (e) {
+        reject(e);
+        return;
+      }
+      this.connectionArgs_ = {allowedOrigins};
+      this.listening_ = true;
+      const pending = this.trackPendingConnection_(resolve, reject);
       this.onListenConnectionMessageReceivedProc_ =
         this.onListenConnectionMessageReceived_.bind(
             this,
-            allowedOrigins,
-            resolve,
-            reject
+            originRules,
+            pending.resolve,
+            pending.reject
         );
       this.window_.addEventListener('message',
         /** @type {(function (Event): (boolean|undefined)|null)} */
@@ -151,8 +471,9 @@ export class WindowMessenger {
           log('Delaying connection handshake indefinitely...');
         }
       } else {
-        this.send(WindowMessenger.Topics.CONNECT_HANDSHAKE, null);
-        this.connected_ = true;
+        this.postMessage_(WindowMessenger.Topics.CONNECT_HANDSHAKE,
+            this.getHandshakeData_());
+        this.onConnected_();
       }
     });
   }
@@ -163,8 +484,9 @@ export class WindowMessenger {
    * Finishes establishing the suspended connection.
    */
   public finishListenHandshake() {
-    this.send(WindowMessenger.Topics.CONNECT_HANDSHAKE, null);
-    this.connected_ = true;
+    this.postMessage_(WindowMessenger.Topics.CONNECT_HANDSHAKE,
+        this.getHandshakeData_());
+    this.onConnected_();
   }
 
   /**
@@ -175,29 +497,24 @@ export class WindowMessenger {
    * AMP Cache (https://www.google.com/amp), from the site itself
    * (https://your-site.com), and from other sources.
    *
-   * The message's source origin just needs to be an entry in our list
-   * (normalized).
+   * The message's source origin just needs to match one of our compiled rules.
    */
-  private isAllowedOrigin_(origin: string, allowedOrigins: Array<string>): boolean {
-    const normalizedOrigin = new URL(origin).origin;
-    for (let i = 0; i < allowedOrigins.length; i++) {
-      const allowedOrigin = allowedOrigins[i];
-      // A user might have mistyped the allowed origin, so let's normalize our
-      // comparisons first
-      if (new URL(allowedOrigin).origin === normalizedOrigin) {
-        return true;
-      }
-    }
-    return false;
+  private isAllowedOrigin_(origin: string, originRules: Array<OriginRule>): boolean {
+    return isOriginAllowed(origin, originRules);
   }
 
   /**
    * Occurs when the messenger receives its step 1 internal connection message.
+   *
+   * Peers claiming a version below minProtocolVersion are refused. Peers
+   * speaking protocol version 5 or later must then answer a challenge over the
+   * channel they sent before it's accepted; older peers, including those
+   * sending no version, are accepted right away.
    */
   private onListenConnectionMessageReceived_(
-    allowedOrigins: Array<string>,
+    originRules: Array<OriginRule>,
     resolvePromise: () => void,
-    rejectPromise: () => void,
+    rejectPromise: (error: Error) => void,
     messageChannelEvent: MessageEvent
   ) {
     const message = messageChannelEvent.data;
@@ -206,10 +523,10 @@ export class WindowMessenger {
       log('Window message for listen() connection ' +
         'received:', message);
     }
-    if (!this.isAllowedOrigin_(origin, allowedOrigins)) {
+    if (!this.isAllowedOrigin_(origin, originRules)) {
       log(`Discarding connection message from ${origin} ` +
         'because it isn\'t an allowed origin:', message, ' (allowed ' +
-        ' origins are)', allowedOrigins);
+        ' origins are)', originRules.map(rule => rule.source));
       return;
     }
     if (!message ||
@@ -219,15 +536,193 @@ export class WindowMessenger {
       return;
     }
 
+    if (!messagePorts || messagePorts.length !== 1) {
+      log(`Discarding connection message from ${origin} because it carried ` +
+        `${messagePorts ? messagePorts.length : 0} ports instead of 1.`);
+      return;
+    }
+    if (!this.allowHandshakeAttempt_(origin)) {
+      log(`Discarding connection message from ${origin} because it made ` +
+        `more than ${this.handshakeMaxAttempts_} attempts in ` +
+        `${this.handshakeRateInterval_} ms.`);
+      messagePorts[0].close();
+      return;
+    }
+
     log('Received expected connection handshake ' +
       'message:', message);
+    const peerData: HandshakeData|null = message['data'] || null;
+    const peerVersion = peerData && peerData.protocolVersion || 1;
+    if (peerVersion < this.minProtocolVersion_) {
+      log(`Discarding connection message from ${origin} because it claims ` +
+        `protocol version ${peerVersion}, below the minimum of ` +
+        `${this.minProtocolVersion_}.`);
+      // Tell the connecting frame why, but keep listening for others
+      messagePorts[0].postMessage({
+        topic: WindowMessenger.Topics.CONNECT_HANDSHAKE,
+        data: this.getHandshakeData_(`Protocol version ${peerVersion} is ` +
+          `below the minimum of ${this.minProtocolVersion_}.`),
+      });
+      messagePorts[0].close();
+      return;
+    }
+    if (peerData &&
+        peerData.protocolVersion >= WindowMessenger.NONCE_PROTOCOL_VERSION) {
+      this.challengePeer_(origin, messagePorts[0], peerData, resolvePromise,
+          rejectPromise);
+      return;
+    }
+    this.acceptListenConnection_(messagePorts[0], peerData, resolvePromise,
+        rejectPromise);
+  }
+
+  /**
+   * Returns false if the origin has made too many connection attempts
+   * recently, and records this attempt otherwise.
+   */
+  private allowHandshakeAttempt_(origin: string): boolean {
+    const now = Date.now();
+    const attempts = (this.handshakeAttempts_[origin] || [])
+      .filter(time => now - time < this.handshakeRateInterval_);
+    this.handshakeAttempts_[origin] = attempts;
+    if (attempts.length >= this.handshakeMaxAttempts_) {
+      return false;
+    }
+    attempts.push(now);
+    return true;
+  }
+
+  /**
+   * Returns why the peer's connection nonce can't be accepted, or null and
+   * marks it used.
+   */
+  private useHandshakeNonce_(peerData: HandshakeData): string|null {
+    const now = Date.now();
+    const nonces = Object.keys(this.usedHandshakeNonces_);
+    for (let i = 0; i < nonces.length; i++) {
+      if (this.usedHandshakeNonces_[nonces[i]] <= now) {
+        delete this.usedHandshakeNonces_[nonces[i]];
+      }
+    }
+    if (typeof peerData.nonce !== 'string' || !peerData.nonce ||
+        typeof peerData.issuedAt !== 'number') {
+      return 'it has no nonce';
+    }
+    if (Math.abs(now - peerData.issuedAt) > this.handshakeNonceTtl_) {
+      return 'its nonce expired';
+    }
+    if (this.usedHandshakeNonces_[peerData.nonce]) {
+      return 'its nonce was already used';
+    }
+    this.usedHandshakeNonces_[peerData.nonce] =
+      peerData.issuedAt + this.handshakeNonceTtl_;
+    return null;
+  }
+
+  /**
+   * Sends the connecting peer a one-time nonce over the channel it sent, and
+   * accepts the connection once the peer echoes it back within the nonce TTL.
+   * This proves the peer is holding the channel now, rather than a handshake
+   * message being replayed.
+   */
+  private challengePeer_(
+    origin: string,
+    messagePort: MessagePort,
+    peerData: HandshakeData,
+    resolvePromise: () => void,
+    rejectPromise: (error: Error) => void) {
+    const nonceError = this.useHandshakeNonce_(peerData);
+    if (nonceError) {
+      log(`Discarding connection message from ${origin} because ` +
+        `${nonceError}.`);
+      messagePort.close();
+      return;
+    }
+    const nonce = generateNonce();
+    let timeoutId = null;
+    const abandon = () => {
+      clearTimeout(timeoutId);
+      messagePort.removeEventListener('message', onChallengeResponse);
+      delete this.pendingChallenges_[nonce];
+    };
+    const onChallengeResponse = (event: MessageEvent) => {
+      const response = event.data;
+      if (!response ||
+          response['topic'] !== WindowMessenger.Topics.CONNECT_CHALLENGE) {
+        return;
+      }
+      abandon();
+      if (!response['data'] || response['data']['nonce'] !== nonce) {
+        log(`Discarding connection from ${origin} because it answered the ` +
+          'challenge with the wrong nonce.');
+        messagePort.close();
+        return;
+      }
+      if (!this.listening_) {
+        // Another connection attempt was accepted first
+        messagePort.close();
+        return;
+      }
+      this.acceptListenConnection_(messagePort, peerData, resolvePromise,
+          rejectPromise);
+    };
+    timeoutId = setTimeout(() => {
+      abandon();
+      log(`Discarding connection from ${origin} because it didn't answer ` +
+        `the challenge within ${this.handshakeNonceTtl_} ms.`);
+      messagePort.close();
+    }, this.handshakeNonceTtl_);
+    this.pendingChallenges_[nonce] = () => {
+      abandon();
+      messagePort.close();
+    };
+    messagePort.addEventListener('message', onChallengeResponse);
+    messagePort.start();
+    messagePort.postMessage({
+      topic: WindowMessenger.Topics.CONNECT_CHALLENGE,
+      data: {nonce, clientNonce: peerData.nonce},
+    });
+  }
+
+  /**
+   * Abandons every connection attempt still answering its challenge.
+   */
+  private abandonPendingChallenges_() {
+    const nonces = Object.keys(this.pendingChallenges_);
+    for (let i = 0; i < nonces.length; i++) {
+      this.pendingChallenges_[nonces[i]]();
+    }
+  }
+
+  /**
+   * Accepts the connection on the port of a verified handshake message.
+   */
+  private acceptListenConnection_(
+    messagePort: MessagePort,
+    peerData: HandshakeData|null,
+    resolvePromise: () => void,
+    rejectPromise: (error: Error) => void) {
     // This was our expected handshake message Remove our message handler so we
     // don't get spammed with cross-domain messages
     this.window_.removeEventListener('message',
         /** @type {(function (Event): (boolean|undefined)|null)} */
         (this.onListenConnectionMessageReceivedProc_));
+    this.listening_ = false;
+    this.abandonPendingChallenges_();
     // Get the message port
-    this.messagePort_ = messagePorts[0];
+    this.messagePort_ = messagePort;
+    try {
+      this.acceptPeerHandshake_(peerData);
+    } catch (e) {
+      // Tell the connecting frame why, instead of leaving it waiting
+      this.messagePort_.postMessage({
+        topic: WindowMessenger.Topics.CONNECT_HANDSHAKE,
+        data: this.getHandshakeData_(e.message),
+      });
+      this.messagePort_ = null;
+      rejectPromise(e);
+      return;
+    }
     this.onChannelMessageReceivedProc_ =
       this.onChannelMessageReceived_.bind(this);
     this.messagePort_.addEventListener('message',
@@ -263,14 +758,22 @@ export class WindowMessenger {
         reject(new Error('Already connecting.'));
         return;
       }
+      this.connectionArgs_ = {remoteWindowContext, expectedRemoteOrigin};
+      this.connecting_ = true;
       this.channel_ = new MessageChannel();
       this.messagePort_ = this.channel_.port1;
+      const handshake = this.getHandshakeData_();
+      handshake.nonce = generateNonce();
+      handshake.issuedAt = Date.now();
+      const pending = this.trackPendingConnection_(resolve, reject);
       this.onConnectConnectionMessageReceivedProc_ =
         this.onConnectConnectionMessageReceived_.bind(
             this,
             this.messagePort_,
             expectedRemoteOrigin,
-            resolve)
+            handshake.nonce,
+            pending.resolve,
+            pending.reject)
         ;
       this.messagePort_.addEventListener('message',
           this.onConnectConnectionMessageReceivedProc_);
@@ -278,6 +781,7 @@ export class WindowMessenger {
       remoteWindowContext.postMessage(
         /** @type {JsonObject} */ ({
           topic: WindowMessenger.Topics.CONNECT_HANDSHAKE,
+          data: handshake,
         }), expectedRemoteOrigin === '*' ?
                 '*' :
                 new URL(expectedRemoteOrigin).origin, [this.channel_.port2]);
@@ -286,40 +790,423 @@ export class WindowMessenger {
   }
 
   /**
-   * Occurs when the messenger receives its step 2 internal connection message.
+   * Remembers how to reject the connect() or listen() being started, so closing
+   * the channel before it settles can reject it. Returns the callbacks to settle
+   * it with instead of the Promise's own.
+   */
+  private trackPendingConnection_(
+    resolve: () => void,
+    reject: (error: Error) => void) {
+    const untrack = () => {
+      if (this.rejectPendingConnection_ === rejectPending) {
+        this.rejectPendingConnection_ = null;
+      }
+    };
+    const rejectPending = (error: Error) => {
+      untrack();
+      reject(error);
+    };
+    this.rejectPendingConnection_ = rejectPending;
+    return {
+      resolve: () => {
+        untrack();
+        resolve();
+      },
+      reject: rejectPending,
+    };
+  }
+
+  /**
+   * Occurs when the messenger receives its step 2 internal connection message,
+   * or the listening side's challenge before it.
    */
   private onConnectConnectionMessageReceived_(
     messagePort: MessagePort,
     expectedRemoteOrigin: string,
-    resolvePromise: () => void) {
+    handshakeNonce: string,
+    resolvePromise: () => void,
+    rejectPromise: (error: Error) => void,
+    event: MessageEvent) {
+    if (event.data &&
+        event.data['topic'] === WindowMessenger.Topics.CONNECT_CHALLENGE) {
+      const challenge = event.data['data'] || {};
+      if (challenge['clientNonce'] !== handshakeNonce) {
+        log('Ignoring a connection challenge for another handshake.');
+        return;
+      }
+      messagePort.postMessage({
+        topic: WindowMessenger.Topics.CONNECT_CHALLENGE,
+        data: {nonce: challenge['nonce']},
+      });
+      return;
+    }
     // This is the remote frame's reply to our initial handshake topic message
-    this.connected_ = true;
+    // Remove our message handler
+    messagePort.removeEventListener('message',
+        this.onConnectConnectionMessageReceivedProc_);
+    this.connecting_ = false;
+    const handshake: HandshakeData = event.data ? event.data['data'] : null;
+    try {
+      if (handshake && handshake.error) {
+        throw new WindowMessengerError('incompatible-protocol',
+          WindowMessenger.Topics.CONNECT_HANDSHAKE,
+          `${expectedRemoteOrigin} refused the connection: ${handshake.error}`);
+      }
+      this.acceptPeerHandshake_(handshake);
+    } catch (e) {
+      log(`Messenger channel to ${expectedRemoteOrigin} failed:`, e.message);
+      messagePort.close();
+      this.messagePort_ = null;
+      rejectPromise(e);
+      return;
+    }
     if (this.debug_) {
       log(`Messenger channel to ${expectedRemoteOrigin} ` +
         'established.');
     }
-    // Remove our message handler
-    messagePort.removeEventListener('message',
-        this.onConnectConnectionMessageReceivedProc_);
     // Install a new message handler for receiving normal messages
     this.onChannelMessageReceivedProc_ =
       this.onChannelMessageReceived_.bind(this);
     messagePort.addEventListener('message',
         this.onChannelMessageReceivedProc_, false);
+    this.onConnected_();
     resolvePromise();
   }
 
+  /**
+   * Occurs when both sides have completed the connection handshake.
+   */
+  private onConnected_() {
+    this.connected_ = true;
+    this.startHeartbeat_();
+    if (this.hasConnectedBefore_) {
+      if (this.debug_) {
+        log('Reconnected.');
+      }
+      const listeners = this.reconnectListeners_.slice();
+      for (let i = 0; i < listeners.length; i++) {
+        listeners[i]();
+      }
+    }
+    this.hasConnectedBefore_ = true;
+  }
+
+  /**
+   * Subscribes a callback to be fired when the connection closes, either by
+   * calling disconnect() on either side or because the peer stopped answering
+   * heartbeats. Returns a function that unsubscribes the callback.
+   */
+  public onDisconnect(callback: (reason: string) => void): () => void {
+    this.disconnectListeners_.push(callback);
+    return () => {
+      const index = this.disconnectListeners_.indexOf(callback);
+      if (index !== -1) {
+        this.disconnectListeners_.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Subscribes a callback to be fired when a closed connection has been
+   * re-established. Returns a function that unsubscribes the callback.
+   */
+  public onReconnect(callback: () => void): () => void {
+    this.reconnectListeners_.push(callback);
+    return () => {
+      const index = this.reconnectListeners_.indexOf(callback);
+      if (index !== -1) {
+        this.reconnectListeners_.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Returns true if both sides have completed the connection handshake and the
+   * channel hasn't been closed since.
+   */
+  public isConnected(): boolean {
+    return this.connected_;
+  }
+
+  /**
+   * Closes the connection, or stops listening for one. The peer is told so it
+   * can clean up too, and every pending send(), connect() or listen() rejects
+   * with a 'disconnected' error. A closed messenger can connect or listen again, or reconnect().
+   */
+  public disconnect() {
+    if (this.listening_) {
+      this.window_.removeEventListener('message',
+          this.onListenConnectionMessageReceivedProc_);
+      this.listening_ = false;
+      this.abandonPendingChallenges_();
+    }
+    if (this.messagePort_ && this.connected_ &&
+        this.protocolVersion_ >= WindowMessenger.LIFECYCLE_PROTOCOL_VERSION) {
+      this.postMessage_(WindowMessenger.Topics.DISCONNECT, null);
+    }
+    this.closeChannel_('Disconnected by this side.', false);
+  }
+
+  /**
+   * Re-establishes a closed connection the same way it was first established:
+   * by listening again with the same allowed origins, or by connecting again to
+   * the same remote window.
+   */
+  public reconnect(): Promise<void> {
+    const args = this.connectionArgs_;
+    if (!args) {
+      return Promise.reject(new Error('Cannot reconnect a messenger that ' +
+        'never connected.'));
+    }
+    if (this.connected_) {
+      return Promise.resolve();
+    }
+    if (args.allowedOrigins) {
+      return this.listen(args.allowedOrigins);
+    }
+    return this.connect(args.remoteWindowContext, args.expectedRemoteOrigin);
+  }
+
+  /**
+   * Tears down the channel, rejects pending sends and any pending connect() or
+   * listen(), and notifies disconnect listeners. Reconnects afterwards if the peer went away and autoReconnect is
+   * enabled.
+   */
+  private closeChannel_(reason: string, peerWentAway: boolean) {
+    const wasConnected = this.connected_;
+    this.stopHeartbeat_();
+    if (this.messagePort_) {
+      if (this.onChannelMessageReceivedProc_) {
+        this.messagePort_.removeEventListener('message',
+            this.onChannelMessageReceivedProc_);
+      }
+      if (this.onConnectConnectionMessageReceivedProc_) {
+        this.messagePort_.removeEventListener('message',
+            this.onConnectConnectionMessageReceivedProc_);
+      }
+      this.messagePort_.close();
+    }
+    this.messagePort_ = null;
+    this.channel_ = null;
+    this.connected_ = false;
+    this.connecting_ = false;
+    this.protocolVersion_ = null;
+    this.peerHandshake_ = null;
+    this.rejectPendingMessages_('disconnected', reason);
+    this.endAllObservations_(reason);
+    if (this.rejectPendingConnection_) {
+      this.rejectPendingConnection_(new WindowMessengerError('disconnected',
+        WindowMessenger.Topics.CONNECT_HANDSHAKE, reason));
+    }
+
+    if (!wasConnected) {
+      return;
+    }
+    if (this.debug_) {
+      log('Channel closed:', reason);
+    }
+    const listeners = this.disconnectListeners_.slice();
+    for (let i = 0; i < listeners.length; i++) {
+      listeners[i](reason);
+    }
+    if (peerWentAway && this.autoReconnect_) {
+      this.reconnect().catch(error => {
+        log('Could not reconnect:', error);
+      });
+    }
+  }
+
+  private startHeartbeat_() {
+    this.stopHeartbeat_();
+    if (!this.heartbeatInterval_ ||
+        this.protocolVersion_ < WindowMessenger.LIFECYCLE_PROTOCOL_VERSION) {
+      return;
+    }
+    this.heartbeatTimerId_ = setTimeout(() => {
+      this.heartbeatTimerId_ = null;
+      this.trackPendingMessage_({
+        id: (<Uint8Array>crypto.getRandomValues(new Uint8Array(10))).join(''),
+        topic: WindowMessenger.Topics.HEARTBEAT,
+        data: null,
+      }, {timeout: this.heartbeatTimeout_}).then(() => {
+        if (this.connected_) {
+          this.startHeartbeat_();
+        }
+      }, error => {
+        if (error instanceof WindowMessengerError && error.code === 'timeout') {
+          this.closeChannel_(`The peer didn't answer a heartbeat within ` +
+            `${this.heartbeatTimeout_} ms.`, true);
+        }
+      });
+    }, this.heartbeatInterval_) as any;
+  }
+
+  private stopHeartbeat_() {
+    if (this.heartbeatTimerId_ !== null) {
+      clearTimeout(this.heartbeatTimerId_);
+      this.heartbeatTimerId_ = null;
+    }
+  }
+
+  /**
+   * The current protocol version, sent in the CONNECT_HANDSHAKE.
+   *
+   * Version 1 is the original handshake without any data. Version 2 adds the
+   * HandshakeData exchange. Version 3 adds the HEARTBEAT and DISCONNECT
+   * topics. Version 4 adds the OBSERVE family of topics. Version 5 adds the
+   * connection nonce and the CONNECT_CHALLENGE exchange.
+   */
+  static get PROTOCOL_VERSION(): number {
+    return 5;
+  }
+
+  /**
+   * The protocol version from which peers answer HEARTBEAT and understand
+   * DISCONNECT.
+   */
+  static get LIFECYCLE_PROTOCOL_VERSION(): number {
+    return 3;
+  }
+
+  /**
+   * The protocol version from which peers support observe().
+   */
+  static get OBSERVE_PROTOCOL_VERSION(): number {
+    return 4;
+  }
+
+  /**
+   * The protocol version from which connecting peers send a connection nonce
+   * and answer the listening side's challenge.
+   */
+  static get NONCE_PROTOCOL_VERSION(): number {
+    return 5;
+  }
+
+  /**
+   * The oldest peer protocol version accepted by default.
+   */
+  static get MIN_PROTOCOL_VERSION(): number {
+    return 1;
+  }
+
+  /**
+   * Returns the highest protocol version supported by both sides, or null if
+   * the connection handshake hasn't been received yet. Topic handlers can check
+   * this before relying on newer message formats.
+   */
+  public getProtocolVersion(): number|null {
+    return this.protocolVersion_;
+  }
+
+  /**
+   * Returns the topics the peer advertised during the connection handshake, or
+   * null if the peer didn't advertise any (protocol version 1) or the handshake
+   * hasn't been received yet.
+   */
+  public getPeerSupportedTopics(): Array<string>|null {
+    return this.peerHandshake_ ? this.peerHandshake_.supportedTopics : null;
+  }
+
+  /**
+   * Returns true if the peer advertised support for the topic. Peers that
+   * don't advertise their topics are assumed to support every topic.
+   */
+  public peerSupportsTopic(topic: string): boolean {
+    const supportedTopics = this.getPeerSupportedTopics();
+    return !supportedTopics || supportedTopics.indexOf(topic) !== -1;
+  }
+
+  /**
+   * Returns the topics with a listener or a producer, each listed once even if
+   * it has both.
+   */
+  private getRegisteredTopics_(): Array<string> {
+    const topics = Object.keys(this.listeners_);
+    const producerTopics = Object.keys(this.producers_);
+    for (let i = 0; i < producerTopics.length; i++) {
+      if (topics.indexOf(producerTopics[i]) === -1) {
+        topics.push(producerTopics[i]);
+      }
+    }
+    return topics;
+  }
+
+  private getHandshakeData_(error?: string): HandshakeData {
+    return {
+      protocolVersion: WindowMessenger.PROTOCOL_VERSION,
+      minProtocolVersion: this.minProtocolVersion_,
+      supportedTopics: this.supportedTopics_ || this.getRegisteredTopics_(),
+      error,
+    };
+  }
+
+  /**
+   * Negotiates the highest common protocol version with the peer's handshake
+   * data, and throws an 'incompatible-protocol' WindowMessengerError if there
+   * is none.
+   */
+  private acceptPeerHandshake_(peerData: HandshakeData|null) {
+    const peerHandshake: HandshakeData = {
+      protocolVersion: peerData && peerData.protocolVersion || 1,
+      minProtocolVersion: peerData && peerData.minProtocolVersion || 1,
+      supportedTopics: peerData && Array.isArray(peerData.supportedTopics) ?
+        peerData.supportedTopics :
+        null,
+    };
+    const highestCommonVersion = Math.min(
+        WindowMessenger.PROTOCOL_VERSION, peerHandshake.protocolVersion);
+    const lowestCommonVersion = Math.max(
+        this.minProtocolVersion_, peerHandshake.minProtocolVersion);
+    if (highestCommonVersion < lowestCommonVersion) {
+      throw new WindowMessengerError('incompatible-protocol',
+        WindowMessenger.Topics.CONNECT_HANDSHAKE,
+        `Incompatible protocol versions: this side supports ` +
+        `${this.minProtocolVersion_}-${WindowMessenger.PROTOCOL_VERSION}, ` +
+        `the peer supports ${peerHandshake.minProtocolVersion}-` +
+        `${peerHandshake.protocolVersion}.`);
+    }
+    this.peerHandshake_ = peerHandshake;
+    this.protocolVersion_ = highestCommonVersion;
+    if (this.debug_) {
+      log(`Negotiated protocol version ${highestCommonVersion} with peer ` +
+        'supporting topics:', peerHandshake.supportedTopics);
+    }
+  }
+
   /**
    * Describes the list of available message topics.
    */
   static get Topics(): MessengerTopics {
+    // Except for the internal connection topics, each value must be a key of
+    // TopicRegistry in topics.ts
     return {
       CONNECT_HANDSHAKE: 'topic-connect-handshake',
+      CONNECT_CHALLENGE: 'topic-connect-challenge',
       NOTIFICATION_PERMISSION_STATE: 'topic-notification-permission-state',
+      NOTIFICATION_PERMISSION_REQUEST: 'topic-notification-permission-request',
       SERVICE_WORKER_STATE: 'topic-service-worker-state',
       SERVICE_WORKER_REGISTRATION: 'topic-service-worker-registration',
       SERVICE_WORKER_QUERY: 'topic-service-worker-query',
+      SERVICE_WORKER_UPDATE: 'topic-service-worker-update',
+      SERVICE_WORKER_UNREGISTER: 'topic-service-worker-unregister',
+      SERVICE_WORKER_LIST_REGISTRATIONS:
+        'topic-service-worker-list-registrations',
+      SERVICE_WORKER_REPLACE: 'topic-service-worker-replace',
+      PUSH_SUBSCRIBE: 'topic-push-subscribe',
+      PUSH_UNSUBSCRIBE: 'topic-push-unsubscribe',
+      PUSH_GET_SUBSCRIPTION: 'topic-push-get-subscription',
+      ALTERNATE_ORIGIN_RECHECK: 'topic-alternate-origin-recheck',
+      ALTERNATE_ORIGIN_DIAGNOSTICS: 'topic-alternate-origin-diagnostics',
       ORIGIN_SUBSCRIPTION_STATE: 'topic-origin-subscription-state',
+      ORIGIN_MIGRATE: 'topic-origin-migrate',
+      PARENT_CHALLENGE: 'topic-parent-challenge',
+      HEARTBEAT: 'topic-heartbeat',
+      DISCONNECT: 'topic-disconnect',
+      OBSERVE: 'topic-observe',
+      UNOBSERVE: 'topic-unobserve',
+      OBSERVED_UPDATE: 'topic-observed-update',
+      OBSERVE_END: 'topic-observe-end',
     };
   }
 
@@ -329,20 +1216,61 @@ export class WindowMessenger {
    */
   private onChannelMessageReceived_(event: MessageEvent) {
     const message = event.data;
-    if (this.messages_[message['id']] && message['isReply']) {
+    if (message['isReply']) {
       const existingMessage = this.messages_[message['id']];
-      delete this.messages_[message['id']];
-      const promiseResolver = existingMessage.promiseResolver;
-        // Set new incoming message data on existing message
+      if (!existingMessage) {
+        // The send already timed out, was cancelled, or was never ours
+        if (this.debug_) {
+          log(`Discarding late or unsolicited reply for topic ` +
+            `'${message['topic']}':`, message['data']);
+        }
+        return;
+      }
+      existingMessage.cleanup();
+      if (message['isError']) {
+        const errorReply: MessengerErrorReply = message['data'];
+        if (this.debug_) {
+          log(`Received error reply for topic '${message['topic']}':`,
+              errorReply);
+        }
+        existingMessage.promiseRejector(new WindowMessengerError(
+          errorReply.code, errorReply.topic, errorReply.message));
+        return;
+      }
+      const replyError = existingMessage.replyValidator ?
+        existingMessage.replyValidator(message['data']) :
+        null;
+      if (replyError) {
+        log(`Discarding malformed reply for topic '${message['topic']}':`,
+            replyError);
+        existingMessage.promiseRejector(new WindowMessengerError(
+          'invalid-payload', existingMessage.topic,
+          `Invalid reply for topic '${existingMessage.topic}': ${replyError}.`));
+        return;
+      }
+      // Set new incoming message data on existing message
       existingMessage.message = message['data'];
       if (this.debug_) {
         log(`Received reply for topic '${message['topic']}':`,
             message['data']);
       }
-      promiseResolver([
+      existingMessage.promiseResolver([
         message['data'],
         this.sendReply_.bind(this, message['id'], existingMessage['topic']),
       ]);
+    } else if (message['topic'] === WindowMessenger.Topics.HEARTBEAT) {
+      this.postReply_(message['id'], message['topic'], null);
+    } else if (message['topic'] === WindowMessenger.Topics.OBSERVE) {
+      this.onObserveMessageReceived_(message);
+    } else if (message['topic'] === WindowMessenger.Topics.UNOBSERVE) {
+      this.stopProvision_(message['data'] && message['data'].subscriptionId);
+    } else if (message['topic'] === WindowMessenger.Topics.OBSERVED_UPDATE) {
+      this.onObservedUpdateReceived_(message['data']);
+    } else if (message['topic'] === WindowMessenger.Topics.OBSERVE_END) {
+      const {subscriptionId, reason} = message['data'] || {} as any;
+      this.endObservation_(subscriptionId, reason);
+    } else if (message['topic'] === WindowMessenger.Topics.DISCONNECT) {
+      this.closeChannel_('Disconnected by the peer.', true);
     } else {
       const listeners = this.listeners_[message['topic']];
       if (!listeners) {
@@ -352,20 +1280,250 @@ export class WindowMessenger {
         log('Received new message for ' +
           `topic '${message['topic']}': ${message['data']}`);
       }
+      const validators = TOPIC_VALIDATORS[message['topic']];
+      const requestError = validators ?
+        validators.request(message['data']) :
+        null;
+      if (requestError) {
+        log(`Rejecting malformed message for topic '${message['topic']}':`,
+            requestError);
+        this.sendErrorReply_(message['id'], message['topic'],
+          new WindowMessengerError('invalid-payload', message['topic'],
+            `Invalid message for topic '${message['topic']}': ` +
+            `${requestError}.`));
+        return;
+      }
       for (let i = 0; i < listeners.length; i++) {
-        const listener = listeners[i];
-        listener(message['data'],
-            this.sendReply_.bind(this, message['id'], message['topic']));
+        this.invokeListener_(listeners[i], message);
       }
     }
   }
 
+  /**
+   * Calls a topic listener, and replies to the sender with an error reply if
+   * the listener throws or returns a Promise that rejects. Otherwise the
+   * exception would be lost here and the sender would wait forever.
+   */
+  private invokeListener_(listener: (...args) => any, message: any) {
+    const {id, topic} = message;
+    const onListenerError = error => {
+      log(`Listener for topic '${topic}' failed:`, error);
+      this.sendErrorReply_(id, topic, error);
+    };
+    let result;
+    try {
+      result = listener(message['data'],
+          this.sendReply_.bind(this, id, topic));
+    } catch (e) {
+      onListenerError(e);
+      return;
+    }
+    if (result && typeof result.then === 'function') {
+      result.then(undefined, onListenerError);
+    }
+  }
+
+  /**
+   * Replies to a message with a MessengerErrorReply describing the error, which
+   * rejects the sender's pending send().
+   */
+  private sendErrorReply_(id: string, topic: string, error: any) {
+    const errorReply: MessengerErrorReply = {
+      code: error instanceof WindowMessengerError ?
+        error.code :
+        'handler-error',
+      message: error ? (error.message || error.toString()) : String(error),
+      topic,
+    };
+    if (!this.messagePort_) {
+      return;
+    }
+    this.messagePort_.postMessage({
+      id,
+      topic,
+      data: errorReply,
+      isReply: true,
+      isError: true,
+    });
+  }
+
+  /**
+   * Makes a topic observable by the peer. Each time the peer calls observe() on
+   * the topic, the producer is started for that observer; it is stopped when
+   * the peer unobserves or the channel closes.
+   */
+  public provide<K extends ObservableTopicName>(topic: K, producer: TopicProducer<K>) {
+    this.producers_[topic] = producer;
+  }
+
+  /**
+   * Subscribes to updates the peer pushes whenever the topic's value changes.
+   *
+   * Resolves once the peer has started providing updates, with a function that
+   * cancels the observation. Rejects with an 'unsupported-topic' error if the
+   * peer doesn't provide the topic, or an 'incompatible-protocol' error if the
+   * peer predates observation.
+   */
+  public observe<K extends ObservableTopicName>(
+    topic: K,
+    callback: (data: ObservableTopicUpdate<K>) => void,
+    options?: ObserveOptions): Promise<() => void> {
+    if (this.protocolVersion_ !== null &&
+        this.protocolVersion_ < WindowMessenger.OBSERVE_PROTOCOL_VERSION) {
+      return Promise.reject(new WindowMessengerError('incompatible-protocol',
+        topic, `The peer's protocol version ${this.protocolVersion_} doesn't ` +
+        'support observing topics.'));
+    }
+    const subscriptionId =
+      (<Uint8Array>crypto.getRandomValues(new Uint8Array(10))).join('');
+    this.observations_[subscriptionId] = {
+      topic,
+      callback,
+      onEnd: options ? options.onEnd : undefined,
+    };
+    const unobserve = () => {
+      if (!this.observations_[subscriptionId]) {
+        return;
+      }
+      delete this.observations_[subscriptionId];
+      if (this.messagePort_) {
+        this.postMessage_(WindowMessenger.Topics.UNOBSERVE, {subscriptionId});
+      }
+    };
+    return this.trackPendingMessage_({
+      id: (<Uint8Array>crypto.getRandomValues(new Uint8Array(10))).join(''),
+      topic: WindowMessenger.Topics.OBSERVE,
+      data: {subscriptionId, topic},
+    }, options).then(() => unobserve, error => {
+      delete this.observations_[subscriptionId];
+      throw error;
+    });
+  }
+
+  /**
+   * Occurs when the peer starts observing a topic we provide.
+   */
+  private onObserveMessageReceived_(message: any) {
+    const {subscriptionId, topic} = message['data'] || {} as any;
+    const producer = this.producers_[topic];
+    if (typeof subscriptionId !== 'string' || !producer) {
+      this.sendErrorReply_(message['id'], WindowMessenger.Topics.OBSERVE,
+        new WindowMessengerError('unsupported-topic', topic,
+          `Topic '${topic}' can't be observed.`));
+      return;
+    }
+    const emit = data => {
+      if (this.provisions_[subscriptionId] && this.messagePort_) {
+        this.postMessage_(WindowMessenger.Topics.OBSERVED_UPDATE,
+            {subscriptionId, data});
+      }
+    };
+    const end = (reason: string) => {
+      if (this.provisions_[subscriptionId]) {
+        this.stopProvision_(subscriptionId);
+        if (this.messagePort_) {
+          this.postMessage_(WindowMessenger.Topics.OBSERVE_END,
+              {subscriptionId, reason});
+        }
+      }
+    };
+    // Marks the observation active before the producer can emit
+    this.provisions_[subscriptionId] = () => {};
+    this.postReply_(message['id'], WindowMessenger.Topics.OBSERVE, null);
+    try {
+      const stop = producer(emit, end);
+      if (this.provisions_[subscriptionId]) {
+        this.provisions_[subscriptionId] = stop;
+      } else {
+        // The producer ended the observation synchronously
+        stop();
+      }
+    } catch (e) {
+      log(`Producer for topic '${topic}' failed:`, e);
+      end(e && e.message || String(e));
+    }
+  }
+
+  /**
+   * Stops the producer for one of the peer's observations.
+   */
+  private stopProvision_(subscriptionId: string) {
+    const stop = this.provisions_[subscriptionId];
+    if (!stop) {
+      return;
+    }
+    delete this.provisions_[subscriptionId];
+    try {
+      stop();
+    } catch (e) {
+      log('Stopping a producer failed:', e);
+    }
+  }
+
+  /**
+   * Occurs when the peer pushes an update for one of our observations.
+   */
+  private onObservedUpdateReceived_(update: any) {
+    const observation = update ? this.observations_[update.subscriptionId] : null;
+    if (!observation) {
+      if (this.debug_) {
+        log('Discarding update for an unknown observation:', update);
+      }
+      return;
+    }
+    const validator = OBSERVABLE_TOPIC_VALIDATORS[observation.topic];
+    const updateError = validator ? validator(update.data) : null;
+    if (updateError) {
+      log(`Discarding malformed update for topic '${observation.topic}':`,
+          updateError);
+      return;
+    }
+    observation.callback(update.data);
+  }
+
+  /**
+   * Forgets one of our observations and tells its onEnd callback why.
+   */
+  private endObservation_(subscriptionId: string, reason: string) {
+    const observation = this.observations_[subscriptionId];
+    if (!observation) {
+      return;
+    }
+    delete this.observations_[subscriptionId];
+    if (this.debug_) {
+      log(`Observation of topic '${observation.topic}' ended:`, reason);
+    }
+    if (observation.onEnd) {
+      observation.onEnd(reason);
+    }
+  }
+
+  /**
+   * Stops every producer and ends every observation, on both sides of the
+   * channel.
+   */
+  private endAllObservations_(reason: string) {
+    const provisionIds = Object.keys(this.provisions_);
+    for (let i = 0; i < provisionIds.length; i++) {
+      this.stopProvision_(provisionIds[i]);
+    }
+    const observationIds = Object.keys(this.observations_);
+    for (let i = 0; i < observationIds.length; i++) {
+      this.endObservation_(observationIds[i], reason);
+    }
+  }
+
   /**
    * Subscribes a callback to be fired anytime a new message is received on the
    * topic. Replies to an existing message fire on the existing message promise
    * chain, not on this method, even if the topic matches.
+   *
+   * Messages whose data doesn't match the topic's registered shape are
+   * rejected with an 'invalid-payload' error and never reach the callback. If
+   * the callback throws, or returns a Promise that rejects, the sender's send()
+   * rejects with a 'handler-error' WindowMessengerError.
    */
-  on(topic: string, callback: (...args) => void) {
+  on<K extends TopicName>(topic: K, callback: TopicListener<K>) {
     if (this.listeners_[topic]) {
       this.listeners_[topic].push(callback);
     } else {
@@ -376,7 +1534,7 @@ export class WindowMessenger {
   /**
    * Removes the mapping subscribing the callback to a new message topic.
    */
-  off(topic: string, callback: (...args) => void) {
+  off<K extends TopicName>(topic: K, callback?: TopicListener<K>) {
     if (callback) {
       const callbackIndex = this.listeners_[topic].indexOf(callback);
       if (callbackIndex !== -1) {
@@ -392,9 +1550,14 @@ export class WindowMessenger {
 
   /**
    * id, and topic is supplied by .bind(..). When sendReply is called by the
-   * user, only the 'data' parameter is provided
+   * user, only the 'data' and optional 'options' parameters are provided.
+   *
+   * Most replies are never answered in turn, so a reply is only kept pending
+   * for an answer when the caller passes a timeout or a signal to end the wait.
+   * Otherwise it's posted and forgotten, and the returned Promise only settles
+   * if posting fails. A rejection is only surfaced to callers that chain on it.
    */
-  private sendReply_(id: string, topic: string, data: any): Promise<void> {
+  private sendReply_(id: string, topic: string, data: any, options?: SendOptions): Promise<any> {
     const payload = {
       id,
       topic,
@@ -406,21 +1569,28 @@ export class WindowMessenger {
      origin, otherwise the message is not sent. Since we just got a message, we
      already know the receipient's origin.
      */
-    this.messagePort_.postMessage(payload);
-
-    return new Promise(resolve => {
-      this.messages_[payload.id] = {
-        message: data,
-        topic,
-        promiseResolver: resolve,
-      };
-    });
+    const waitsForAnswer = options &&
+      (options.timeout > 0 || !!options.signal);
+    const replyPromise = waitsForAnswer ?
+      this.trackPendingMessage_(payload, options) :
+      this.postUntracked_(payload);
+    replyPromise.catch(() => {});
+    return replyPromise;
   }
 
   /**
    * Sends a message with the given topic, and data.
+   *
+   * The returned Promise resolves with the reply's data and a function to reply
+   * to the reply. It rejects with a WindowMessengerError if the reply doesn't
+   * arrive before the timeout, if the send is cancelled, if there is no
+   * channel to send on, or if the reply doesn't match the topic's registered
+   * shape.
    */
-  public send(topic: string, data: any): Promise<void> {
+  public send<K extends TopicName>(
+    topic: K,
+    data: TopicRequest<K>,
+    options?: SendOptions): Promise<[TopicReply<K>, ReplyFunction<any>]> {
     const payload = {
       id: (<Uint8Array>crypto.getRandomValues(new Uint8Array(10))).join(''),
       topic,
@@ -429,14 +1599,139 @@ export class WindowMessenger {
     if (this.debug_) {
       log(`Sending ${topic}:`, data);
     }
-    this.messagePort_.postMessage(payload);
+    const validators = TOPIC_VALIDATORS[topic];
+    return this.trackPendingMessage_(payload, options,
+        validators ? validators.reply : undefined);
+  }
+
+  /**
+   * Posts an internal message that is never replied to, so nothing is kept
+   * pending for it.
+   */
+  private postMessage_(topic: string, data: any) {
+    this.messagePort_.postMessage({
+      id: (<Uint8Array>crypto.getRandomValues(new Uint8Array(10))).join(''),
+      topic,
+      data,
+    });
+  }
+
+  /**
+   * Posts an internal reply that the other side isn't expected to answer.
+   */
+  private postReply_(id: string, topic: string, data: any) {
+    this.messagePort_.postMessage({
+      id,
+      topic,
+      data,
+      isReply: true,
+    });
+  }
+
+  /**
+   * Posts the payload without keeping an entry in messages_. The returned
+   * Promise rejects if there's no channel or posting fails, and never resolves.
+   */
+  private postUntracked_(payload: {id: string, topic: string, data: any}): Promise<any> {
+    return new Promise((_, reject) => {
+      if (!this.messagePort_) {
+        reject(new WindowMessengerError('disconnected', payload.topic,
+          `Cannot send '${payload.topic}' without a connected channel.`));
+        return;
+      }
+      try {
+        this.messagePort_.postMessage(payload);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  /**
+   * Posts the payload and keeps an entry in messages_ until the reply arrives,
+   * the timeout elapses, or the send is cancelled. The entry is removed in
+   * every case.
+   */
+  private trackPendingMessage_(
+    payload: {id: string, topic: string, data: any},
+    options?: SendOptions,
+    replyValidator?: PayloadValidator): Promise<any> {
+    const {id, topic, data} = payload;
+    const timeout = options && typeof options.timeout === 'number' ?
+      options.timeout :
+      this.defaultTimeout_;
+    const signal = options ? options.signal : undefined;
+
+    return new Promise((resolve, reject) => {
+      if (signal && signal.aborted) {
+        reject(new WindowMessengerError('cancelled', topic,
+          `Sending '${topic}' was cancelled.`));
+        return;
+      }
+      if (!this.messagePort_) {
+        reject(new WindowMessengerError('disconnected', topic,
+          `Cannot send '${topic}' without a connected channel.`));
+        return;
+      }
 
-    return new Promise(resolve => {
-      this.messages_[payload.id] = {
+      let timeoutId = null;
+      const onAbort = () => {
+        cleanup();
+        reject(new WindowMessengerError('cancelled', topic,
+          `Sending '${topic}' was cancelled.`));
+      };
+      const cleanup = () => {
+        delete this.messages_[id];
+        if (timeoutId !== null) {
+          clearTimeout(timeoutId);
+          timeoutId = null;
+        }
+        if (signal) {
+          signal.removeEventListener('abort', onAbort);
+        }
+      };
+
+      this.messages_[id] = {
         message: data,
         topic,
         promiseResolver: resolve,
+        promiseRejector: reject,
+        replyValidator,
+        cleanup,
       };
+      if (timeout > 0) {
+        timeoutId = setTimeout(() => {
+          cleanup();
+          if (this.debug_) {
+            log(`No reply for topic '${topic}' after ${timeout} ms.`);
+          }
+          reject(new WindowMessengerError('timeout', topic,
+            `No reply for '${topic}' after ${timeout} ms.`));
+        }, timeout);
+      }
+      if (signal) {
+        signal.addEventListener('abort', onAbort);
+      }
+
+      try {
+        this.messagePort_.postMessage(payload);
+      } catch (e) {
+        cleanup();
+        reject(e);
+      }
     });
   }
+
+  /**
+   * Rejects every pending send with the given error code and forgets it.
+   */
+  private rejectPendingMessages_(code: MessengerErrorCode, reason: string) {
+    const ids = Object.keys(this.messages_);
+    for (let i = 0; i < ids.length; i++) {
+      const pendingMessage = this.messages_[ids[i]];
+      pendingMessage.cleanup();
+      pendingMessage.promiseRejector(
+        new WindowMessengerError(code, pendingMessage.topic, reason));
+    }
+  }
 }
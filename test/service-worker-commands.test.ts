@@ -0,0 +1,159 @@
+import * as assert from 'assert';
+import {
+  ServiceWorkerCommands,
+  WorkerCommandReply,
+  WorkerCommands,
+  WorkerMessageSource,
+  WorkerRegistration,
+} from '../src/service-worker-commands';
+
+/**
+ * @fileoverview
+ * Runs ServiceWorkerCommands in Node, with plain objects standing in for the
+ * worker's registration and its clients.
+ */
+
+interface FakeClient extends WorkerMessageSource {
+  replies: Array<WorkerCommandReply>,
+}
+
+function createClient(url: string): FakeClient {
+  const client: FakeClient = {
+    url,
+    replies: [],
+    postMessage(message: any) {
+      client.replies.push(message);
+    },
+  };
+  return client;
+}
+
+function createRegistration(subscribed: boolean): WorkerRegistration {
+  return {
+    scope: 'https://example.com/',
+    installing: null,
+    waiting: null,
+    active: {scriptURL: 'https://example.com/sw.js', state: 'activated'},
+    pushManager: {
+      getSubscription: () => Promise.resolve(subscribed ? {} as any : null),
+    },
+  };
+}
+
+function createCommands(): ServiceWorkerCommands {
+  return new ServiceWorkerCommands({
+    registration: createRegistration(true),
+    allowedOrigins: ['https://example.com', 'https://*.example.org'],
+  });
+}
+
+const tests: {[name: string]: () => Promise<void>} = {
+  'answers a client on an allowed origin': () => {
+    const client = createClient('https://example.com/amp-helper-frame.html');
+    return createCommands().handleMessage({
+      command: WorkerCommands.SUBSCRIPTION_STATE,
+      payload: null,
+      requestId: 'request-1',
+    }, client).then(() => {
+      assert.deepStrictEqual(client.replies, [{
+        command: WorkerCommands.SUBSCRIPTION_STATE,
+        payload: true,
+        requestId: 'request-1',
+      }]);
+    });
+  },
+
+  'answers a client matching a wildcard origin rule': () => {
+    const client = createClient('https://push.example.org/amp-remote-frame.html');
+    return createCommands().handleMessage({
+      command: WorkerCommands.SUBSCRIPTION_STATE,
+      payload: null,
+      requestId: 'request-2',
+    }, client).then(() => {
+      assert.strictEqual(client.replies.length, 1);
+      assert.strictEqual(client.replies[0].requestId, 'request-2');
+    });
+  },
+
+  'drops commands from clients on other origins': () => {
+    const clients = [
+      createClient('https://evil.example.net/'),
+      createClient('http://example.com/'),
+      createClient('https://example.org/'),
+      createClient('not a url'),
+    ];
+    return Promise.all(clients.map(client => createCommands().handleMessage({
+      command: WorkerCommands.SUBSCRIPTION_STATE,
+      payload: null,
+      requestId: 'request-3',
+    }, client))).then(() => {
+      clients.forEach(client => {
+        assert.deepStrictEqual(client.replies, [], client.url);
+      });
+    });
+  },
+
+  'drops commands without a source': () => {
+    return createCommands().handleMessage({
+      command: WorkerCommands.SUBSCRIPTION_STATE,
+      payload: null,
+    }, null);
+  },
+
+  'leaves out the request ID for frames predating request IDs': () => {
+    const client = createClient('https://example.com/');
+    return createCommands().handleMessage({
+      command: WorkerCommands.SUBSCRIPTION_STATE,
+      payload: null,
+    }, client).then(() => {
+      assert.strictEqual(client.replies.length, 1);
+      assert.ok(!('requestId' in client.replies[0]));
+    });
+  },
+
+  'echoes the request ID of a failed handler with the error': () => {
+    const client = createClient('https://example.com/');
+    const commands = createCommands();
+    commands.register('failing-command', () => {
+      throw new TypeError('Something broke.');
+    });
+    return commands.handleMessage({
+      command: 'failing-command',
+      payload: null,
+      requestId: 'request-4',
+    }, client).then(() => {
+      assert.deepStrictEqual(client.replies, [{
+        command: 'failing-command',
+        payload: null,
+        requestId: 'request-4',
+        error: {code: 'TypeError', message: 'Something broke.'},
+      }]);
+    });
+  },
+
+  'ignores unknown commands and other protocols': () => {
+    const client = createClient('https://example.com/');
+    const commands = createCommands();
+    return Promise.all([
+      commands.handleMessage({command: 'unknown', payload: null}, client),
+      commands.handleMessage({type: 'other-protocol'}, client),
+    ]).then(() => {
+      assert.deepStrictEqual(client.replies, []);
+    });
+  },
+};
+
+let failures = 0;
+Object.keys(tests).reduce((previous, name) => previous.then(() =>
+  tests[name]().then(() => {
+    console.log(`ok - ${name}`);
+  }, error => {
+    failures++;
+    console.log(`not ok - ${name}`);
+    console.log(error && error.stack || error);
+  })
+), Promise.resolve()).then(() => {
+  if (failures > 0) {
+    process.exit(1);
+  }
+});
@@ -0,0 +1,4 @@
+/**
+ * Replaced at build time by webpack's DefinePlugin. See webpack.config.js.
+ */
+declare const __REMOTE_FRAME_PARENT_ORIGINS__: string;
@@ -9,6 +9,9 @@ module.exports = {
     ),
     "amp-http-remote-frame": path.resolve(
       path.join(__dirname, "./src/amp-remote-frame-entry.ts")
+    ),
+    "amp-http-service-worker": path.resolve(
+      path.join(__dirname, "./src/amp-service-worker-entry.ts")
     )
   },
   output: {
@@ -34,6 +37,14 @@ module.exports = {
   },
   devtool: "source-map",
   plugins: [
+    new webpack.DefinePlugin({
+      // Comma-separated parent origin rules the remote frame accepts. Its URL's
+      // parentOrigins query parameter can only narrow them down, and without
+      // any rules it refuses every parent
+      __REMOTE_FRAME_PARENT_ORIGINS__: JSON.stringify(
+        process.env.REMOTE_FRAME_PARENT_ORIGINS || ""
+      )
+    }),
     new webpack.optimize.ModuleConcatenationPlugin(),
     new webpack.optimize.UglifyJsPlugin({
       sourceMap: true,